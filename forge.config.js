@@ -10,6 +10,7 @@ module.exports = {
     appBundleId: 'com.dam.desktop',
     appCategoryType: 'public.app-category.business',
     darwinDarkModeSupport: true,
+    extraResource: ['./assets/tessdata', './assets/ner'],
     protocols: [
       {
         name: 'DAM Desktop',
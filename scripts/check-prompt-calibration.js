@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Scores every labelled prompt in src/common/data/prompt-calibration.json
+ * with the prompt scorer and lists the prompts whose verdict drifted from
+ * the label. Exits non-zero on any drift, so a scorer change that regrades
+ * known prompts fails `npm test` and `npm run typecheck` before it ships.
+ *
+ *   npm run prompts:calibrate
+ */
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.join(__dirname, '..');
+
+// The scorer has no imports, so it is transpiled on the fly instead of waiting for a build
+function loadScorer() {
+  const file = path.join(root, 'src/common/services/PromptScorer.ts');
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+    fileName: file
+  });
+  const scorerModule = { exports: {} };
+  new Function('module', 'exports', outputText)(scorerModule, scorerModule.exports);
+  return scorerModule.exports;
+}
+
+const { scorePrompt } = loadScorer();
+const fixture = require(path.join(root, 'src/common/data/prompt-calibration.json'));
+
+let drifted = 0;
+for (const { prompt, expected } of fixture.prompts) {
+  const result = scorePrompt(prompt);
+  if (result.verdict === expected) continue;
+
+  drifted++;
+  const preview = prompt.replace(/\s+/g, ' ').slice(0, 60);
+  console.log(`${expected} -> ${result.verdict} (${result.score}): ${preview}`);
+  for (const [dimension, { score, explanation }] of Object.entries(result.dimensions)) {
+    console.log(`  ${dimension} ${score}: ${explanation}`);
+  }
+}
+
+console.log(`${fixture.prompts.length - drifted}/${fixture.prompts.length} prompts match their labels`);
+process.exit(drifted > 0 ? 1 : 0);
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * Downloads the NER model entity recognition uses into assets/ner, so the
+ * app itself never fetches it at runtime: an 8-bit quantized ONNX export of
+ * dslim/bert-base-NER (about 110 MB) with its vocabulary and label config.
+ * Files already in place are kept; pass --force to download them again.
+ *
+ *   npm run ner-model
+ *   NER_MODEL_REVISION=<commit> npm run ner-model -- --force
+ *
+ * Runs after every install with --optional, where a failed download only
+ * leaves entity recognition on its rules instead of failing the install.
+ */
+const fs = require('fs');
+const https = require('https');
+const path = require('path');
+
+const REPOSITORY = 'https://huggingface.co/Xenova/bert-base-NER/resolve';
+const REVISION = process.env.NER_MODEL_REVISION || 'main';
+const MAX_REDIRECTS = 5;
+
+// Local name -> path in the model repository
+const FILES = {
+  'model.onnx': 'onnx/model_quantized.onnx',
+  'vocab.txt': 'vocab.txt',
+  'config.json': 'config.json',
+  'tokenizer_config.json': 'tokenizer_config.json'
+};
+
+const root = path.join(__dirname, '..');
+const target = path.join(root, 'assets/ner');
+const force = process.argv.includes('--force');
+const optional = process.argv.includes('--optional');
+
+function download(url, file, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    https.get(url, response => {
+      if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Too many redirects for ${url}`));
+          return;
+        }
+        resolve(download(new URL(response.headers.location, url).toString(), file, redirects + 1));
+        return;
+      }
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error(`GET ${url} failed with status ${response.statusCode}`));
+        return;
+      }
+
+      // Written under a temporary name so an interrupted download is never taken for a model
+      const partial = `${file}.partial`;
+      const out = fs.createWriteStream(partial);
+      response.pipe(out);
+      out.on('finish', () => {
+        fs.renameSync(partial, file);
+        resolve();
+      });
+      out.on('error', reject);
+      response.on('error', reject);
+    }).on('error', reject);
+  });
+}
+
+async function main() {
+  for (const [name, remote] of Object.entries(FILES)) {
+    const file = path.join(target, name);
+    if (!force && fs.existsSync(file)) {
+      console.log(`${path.relative(root, file)} already present`);
+      continue;
+    }
+
+    await download(`${REPOSITORY}/${REVISION}/${remote}`, file);
+    console.log(`Downloaded ${remote} to ${path.relative(root, file)}`);
+  }
+}
+
+main().catch(error => {
+  console.error(`Could not fetch the NER model: ${error.message}`);
+  if (optional) {
+    console.error('Entity recognition will use its rules only; run npm run ner-model to try again.');
+  }
+  process.exit(optional ? 0 : 1);
+});
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Copies the Tesseract language packs OCR needs into assets/tessdata from
+ * the @tesseract.js-data/<lang> packages, so the app never downloads them
+ * at runtime. Runs after every install for English; pass other languages
+ * after installing their packages:
+ *
+ *   npm install --save-dev @tesseract.js-data/deu
+ *   npm run tessdata -- eng deu
+ */
+const fs = require('fs');
+const path = require('path');
+
+// The integer-quantized "best" models, the same accuracy at a third of the size
+const MODEL_DIR = '4.0.0_best_int';
+
+const root = path.join(__dirname, '..');
+const target = path.join(root, 'assets/tessdata');
+const languages = process.argv.length > 2 ? process.argv.slice(2) : ['eng'];
+
+let missing = 0;
+for (const lang of languages) {
+  const file = `${lang}.traineddata.gz`;
+  let source;
+  try {
+    source = path.join(path.dirname(require.resolve(`@tesseract.js-data/${lang}/package.json`)), MODEL_DIR, file);
+  } catch (error) {
+    console.error(`Missing @tesseract.js-data/${lang}, install it with: npm install --save-dev @tesseract.js-data/${lang}`);
+    missing++;
+    continue;
+  }
+
+  fs.copyFileSync(source, path.join(target, file));
+  console.log(`Copied ${file} to ${path.relative(root, target)}`);
+}
+
+process.exit(missing > 0 ? 1 : 0);
@@ -1,12 +1,26 @@
 import { Logger } from '../utils/Logger';
 import { ScreenCaptureResult } from './ScreenCaptureService';
 import { DashboardSyncService } from './DashboardSyncService';
+import { ConfigService } from './ConfigService';
+import { SensitiveDataRegistry } from './SensitiveDataRegistry';
+import { SensitiveDataFinding, SEVERITY_RANK } from './SensitiveDataDetectors';
+import { AIToolRegistry } from './AIToolRegistry';
+import { SegmentedConversation } from './ChatSegmenter';
+import { PromptVerdict, scorePrompt } from './PromptScorer';
+
+// Who put the data on screen: the user typed or pasted it, the AI generated it, or the app's own UI shows it
+export type FindingOrigin = 'user' | 'assistant' | 'interface';
+
+export interface AnalyzedFinding extends SensitiveDataFinding {
+  origin?: FindingOrigin; // Unset when the text could not be segmented
+}
 
 export interface AnalysisResult {
   timestamp: number;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   sensitiveDataDetected: boolean;
-  sensitiveDataTypes: string[];
+  sensitiveDataTypes: string[]; // Only data the user shared
+  findings: AnalyzedFinding[];
   aiToolDetected: string | null;
   promptQuality: 'poor' | 'fair' | 'good' | 'excellent';
   suggestions: Suggestion[];
@@ -32,63 +46,28 @@ export interface LearningOpportunity {
   resources?: string[];
 }
 
+// Findings the user is responsible for; unsegmented text counts as the user's
+export function isUserFinding(finding: AnalyzedFinding): boolean {
+  return finding.origin === undefined || finding.origin === 'user';
+}
+
 export class AIContentAnalyzer {
   private static instance: AIContentAnalyzer;
   private logger: Logger;
   private dashboardSync: DashboardSyncService;
+  private configService: ConfigService;
+  private toolRegistry: AIToolRegistry;
   
-  // Patterns for detecting sensitive information
-  private sensitivePatterns = {
-    ssn: /\b\d{3}-\d{2}-\d{4}\b/,
-    creditCard: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/,
-    email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/,
-    phone: /\b(\+\d{1,3}[- ]?)?\(?\d{3}\)?[- ]?\d{3}[- ]?\d{4}\b/,
-    // Enhanced API key detection - catches OpenAI, AWS, etc.
-    apiKey: /\b(sk-[a-zA-Z0-9]{48,}|AKIA[0-9A-Z]{16}|ya29\.[a-zA-Z0-9_-]+|AIza[0-9A-Za-z_-]{35}|xoxb-[0-9]+-[0-9A-Za-z-]+|ghp_[a-zA-Z0-9]{36}|gho_[a-zA-Z0-9]{36}|github_pat_[a-zA-Z0-9_]+|Bearer\s+[a-zA-Z0-9_-]+)\b/gi,
-    // Alternative API key patterns
-    apiKeyGeneral: /\b(api[_-]?key|apikey|api[_-]?secret|access[_-]?token|bearer)[:\s=]*['"]?[a-zA-Z0-9_-]{16,}['"]?\b/i,
-    // OpenAI specific
-    openaiKey: /\bsk-[a-zA-Z0-9]{20,}\b/g,
-    // AWS keys
-    awsKey: /\b(AKIA[0-9A-Z]{16}|[A-Z0-9]{20})\b/g,
-    password: /\b(password|passwd|pwd)[:\s=]*['"]?[^\s'"]{8,}['"]?\b/i,
-    financialData: /\$[\d,]+\.?\d*|USD\s*[\d,]+|revenue|profit|salary|income/i,
-    customerData: /customer|client|user|account.*name|billing.*address/i
-  };
-
-  // AI tool detection patterns
-  private aiToolPatterns = {
-    chatgpt: /chat\.openai\.com|chatgpt/i,
-    claude: /claude\.ai|anthropic/i,
-    gemini: /gemini\.google|bard/i,
-    copilot: /github.*copilot|copilot/i,
-    midjourney: /midjourney/i,
-    perplexity: /perplexity\.ai/i
-  };
-
-  // Prompt quality indicators
-  private promptQualityIndicators = {
-    poor: [
-      /^(help|fix|do|make|create)$/i,
-      /^.{0,10}$/,
-      /^(what|how|why|when|where)$/i
-    ],
-    good: [
-      /context|background|specifically|example|format|style/i,
-      /step.?by.?step|detailed|comprehensive/i,
-      /please.*explain|can.*you.*help.*with/i
-    ],
-    excellent: [
-      /role.*play|act.*as|perspective|persona/i,
-      /constraints|requirements|specifications/i,
-      /format.*as|structure.*like|output.*should/i,
-      /avoid|don't|exclude|without/i
-    ]
-  };
+  private detectorRegistry: SensitiveDataRegistry;
+  private minRiskConfidence = 0.5; // Weaker findings are reported but never raise the risk level
+  private fullRiskConfidence = 0.8; // Findings below this count one severity level lower
 
   private constructor() {
     this.logger = Logger.getInstance();
     this.dashboardSync = DashboardSyncService.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
+    this.detectorRegistry = SensitiveDataRegistry.getInstance();
   }
 
   public static getInstance(): AIContentAnalyzer {
@@ -99,25 +78,30 @@ export class AIContentAnalyzer {
   }
 
   public async analyzeContent(
-    screenCapture: ScreenCaptureResult,
-    extractedText: string
+    screenCapture: Pick<ScreenCaptureResult, 'activeWindow'>, // Window title, or the page URL for extension events
+    extractedText: string, // With a conversation, its text: segment offsets index into it
+    options: { syncToDashboard?: boolean; toolId?: string | null; conversation?: SegmentedConversation | null } = {}
   ): Promise<AnalysisResult> {
     const timestamp = Date.now();
+    const conversation = options.conversation || null;
+    
+    // Window detection already knows the tool when it matched a URL, process or app
+    const aiToolDetected = options.toolId || this.detectAITool(screenCapture.activeWindow, extractedText);
     
-    // Detect AI tool
-    const aiToolDetected = this.detectAITool(screenCapture.activeWindow, extractedText);
+    // Without segmentation everything on screen counts as the user's prompt
+    const userText = conversation ? conversation.userText : extractedText;
+    const draft = conversation ? conversation.draft : extractedText;
     
     // Analyze for sensitive data
-    const sensitiveDataAnalysis = this.analyzeSensitiveData(extractedText);
+    const sensitiveDataAnalysis = await this.analyzeSensitiveData(extractedText, conversation);
     
-    // Analyze prompt quality if AI tool is detected
-    const promptQuality = aiToolDetected ? 
-      this.analyzePromptQuality(extractedText) : 'good';
+    // Grade only what the user is about to send, not earlier turns or the AI's answers
+    const promptQuality = aiToolDetected && draft.trim() ? 
+      this.analyzePromptQuality(draft) : 'good';
     
     // Determine risk level
     const riskLevel = this.calculateRiskLevel(
-      sensitiveDataAnalysis.detected,
-      sensitiveDataAnalysis.types,
+      sensitiveDataAnalysis.findings.filter(isUserFinding),
       aiToolDetected
     );
     
@@ -126,7 +110,8 @@ export class AIContentAnalyzer {
       aiToolDetected,
       sensitiveDataAnalysis,
       promptQuality,
-      extractedText
+      draft,
+      userText
     );
     
     // Identify learning opportunities
@@ -134,7 +119,7 @@ export class AIContentAnalyzer {
       aiToolDetected,
       promptQuality,
       sensitiveDataAnalysis,
-      extractedText
+      draft
     );
 
     const result = {
@@ -142,108 +127,92 @@ export class AIContentAnalyzer {
       riskLevel,
       sensitiveDataDetected: sensitiveDataAnalysis.detected,
       sensitiveDataTypes: sensitiveDataAnalysis.types,
+      findings: sensitiveDataAnalysis.findings,
       aiToolDetected,
       promptQuality,
       suggestions,
       learningOpportunity
     };
 
-    // Sync usage data to enterprise dashboard
-    this.syncToEnterpriseDashboard(result, extractedText);
+    // Sync usage data to enterprise dashboard; unsent drafts are not usage
+    if (options.syncToDashboard !== false) {
+      this.syncToEnterpriseDashboard(result, extractedText, userText);
+    }
 
     return result;
   }
 
   private detectAITool(windowName: string, content: string): string | null {
-    const combinedText = `${windowName} ${content}`.toLowerCase();
-    
-    for (const [tool, pattern] of Object.entries(this.aiToolPatterns)) {
-      if (pattern.test(combinedText)) {
-        return tool;
-      }
-    }
-    
-    return null;
+    return this.toolRegistry.getCatalog().matchText(`${windowName} ${content}`)?.id ?? null;
   }
 
-  private analyzeSensitiveData(text: string): { detected: boolean; types: string[] } {
-    const detectedTypes: string[] = [];
-    
-    for (const [type, pattern] of Object.entries(this.sensitivePatterns)) {
-      if (pattern.test(text)) {
-        detectedTypes.push(type);
+  private async analyzeSensitiveData(
+    text: string,
+    conversation: SegmentedConversation | null
+  ): Promise<{ detected: boolean; types: string[]; findings: AnalyzedFinding[] }> {
+    const findings: AnalyzedFinding[] = await this.detectorRegistry.scanAsync(text);
+    if (conversation) {
+      for (const finding of findings) {
+        finding.origin = this.findingOrigin(finding, conversation);
       }
     }
     
+    // An AI answer that echoes an email address is not the user sharing it
+    const shared = findings.filter(isUserFinding);
+    const detectedTypes = Array.from(new Set(shared.map(finding => finding.type)));
+    
     return {
-      detected: detectedTypes.length > 0,
-      types: detectedTypes
+      detected: shared.length > 0,
+      types: detectedTypes,
+      findings
     };
   }
 
-  private analyzePromptQuality(text: string): 'poor' | 'fair' | 'good' | 'excellent' {
-    // Check for excellent indicators
-    for (const pattern of this.promptQualityIndicators.excellent) {
-      if (pattern.test(text)) {
-        return 'excellent';
-      }
-    }
-    
-    // Check for good indicators
-    let goodIndicators = 0;
-    for (const pattern of this.promptQualityIndicators.good) {
-      if (pattern.test(text)) {
-        goodIndicators++;
-      }
-    }
-    if (goodIndicators >= 2) return 'good';
-    if (goodIndicators === 1) return 'fair';
-    
-    // Check for poor indicators
-    for (const pattern of this.promptQualityIndicators.poor) {
-      if (pattern.test(text)) {
-        return 'poor';
-      }
+  private findingOrigin(finding: SensitiveDataFinding, conversation: SegmentedConversation): FindingOrigin {
+    const segment = conversation.segments.find(candidate => finding.start >= candidate.start && finding.start < candidate.end);
+    switch (segment?.role) {
+      case 'assistant':
+        return 'assistant';
+      case 'chrome':
+        return 'interface';
+      default:
+        return 'user';
     }
-    
-    // Default to fair if text is reasonable length
-    return text.length > 50 ? 'fair' : 'poor';
+  }
+
+  // Same scorer as the assistant, so coaching and chat agree on a prompt
+  private analyzePromptQuality(text: string): PromptVerdict {
+    return scorePrompt(text).verdict;
   }
 
   private calculateRiskLevel(
-    hasSensitiveData: boolean,
-    sensitiveTypes: string[],
+    findings: SensitiveDataFinding[],
     aiToolDetected: string | null
   ): 'low' | 'medium' | 'high' | 'critical' {
     if (!aiToolDetected) return 'low';
     
-    if (hasSensitiveData) {
-      // Critical if API keys, passwords, or SSN
-      if (sensitiveTypes.some(type => 
-        ['apiKey', 'password', 'ssn'].includes(type)
-      )) {
-        return 'critical';
-      }
+    // Risk follows the most severe finding, discounted by detector confidence
+    const levels: Array<'low' | 'medium' | 'high' | 'critical'> = ['low', 'medium', 'high', 'critical'];
+    let rank = 0;
+    for (const finding of findings) {
+      if (finding.confidence < this.minRiskConfidence) continue;
       
-      // High if financial or customer data
-      if (sensitiveTypes.some(type => 
-        ['financialData', 'customerData', 'creditCard'].includes(type)
-      )) {
-        return 'high';
+      let findingRank = SEVERITY_RANK[finding.severity];
+      if (finding.confidence < this.fullRiskConfidence) {
+        findingRank = Math.max(0, findingRank - 1);
       }
-      
-      // Medium for other sensitive data
-      return 'medium';
+      rank = Math.max(rank, findingRank);
     }
     
-    return 'low';
+    return levels[rank];
   }
 
   private generateSuggestions(
     aiTool: string | null,
     sensitiveData: { detected: boolean; types: string[] },
     promptQuality: string,
-    content: string
+    content: string,
+    userText: string
   ): Suggestion[] {
     const suggestions: Suggestion[] = [];
     
@@ -294,9 +263,9 @@ export class AIContentAnalyzer {
     }
     
     // Efficiency suggestions
-    if (content.toLowerCase().includes('spreadsheet') || 
-        content.toLowerCase().includes('excel') ||
-        content.toLowerCase().includes('csv')) {
+    if (userText.toLowerCase().includes('spreadsheet') || 
+        userText.toLowerCase().includes('excel') ||
+        userText.toLowerCase().includes('csv')) {
       suggestions.push({
         type: 'efficiency',
         title: 'Use Specialized Tools',
@@ -425,12 +394,7 @@ export class AIContentAnalyzer {
   }
   
   private detectAIToolFromContent(content: string): string {
-    const contentLower = content.toLowerCase();
-    if (contentLower.includes('claude') || contentLower.includes('anthropic')) return 'claude';
-    if (contentLower.includes('chatgpt') || contentLower.includes('openai')) return 'chatgpt';
-    if (contentLower.includes('gemini') || contentLower.includes('bard')) return 'gemini';
-    if (contentLower.includes('copilot')) return 'copilot';
-    return 'general';
+    return this.toolRegistry.getCatalog().matchText(content)?.id ?? 'general';
   }
   
   private getAISpecificResource(tool: string): string {
@@ -441,7 +405,7 @@ export class AIContentAnalyzer {
         return 'https://platform.openai.com/docs/guides/prompt-engineering';
       case 'gemini':
         return 'https://ai.google.dev/gemini-api/docs/prompting-strategies';
-      case 'copilot':
+      case 'github-copilot':
         return 'https://docs.github.com/en/copilot/using-github-copilot/prompt-engineering-for-github-copilot';
       default:
         return 'https://docs.anthropic.com/en/docs/build-with-claude/prompt-engineering/overview';
@@ -478,11 +442,13 @@ export class AIContentAnalyzer {
     }
   }
 
-  private syncToEnterpriseDashboard(result: AnalysisResult, extractedText: string): void {
+  private syncToEnterpriseDashboard(result: AnalysisResult, extractedText: string, userText: string): void {
     try {
       // Get user profile for context
       const userProfile = this.getUserProfile();
       
+      const credentialProviders = this.getCredentialProviders(result.findings.filter(isUserFinding));
+      
       // Record usage event
       this.dashboardSync.recordUsageEvent({
         userId: userProfile?.email || 'unknown',
@@ -490,12 +456,12 @@ export class AIContentAnalyzer {
         userRole: userProfile?.role || 'unknown',
         aiTool: result.aiToolDetected || 'unknown',
         action: 'prompt',
-        category: this.categorizeContent(extractedText),
+        category: this.categorizeContent(userText),
         riskLevel: result.riskLevel,
-        contentType: this.determineContentType(extractedText),
-        promptLength: extractedText.length,
+        contentType: this.determineContentType(userText),
+        promptLength: userText.length,
         sensitiveDataDetected: result.sensitiveDataDetected,
-        apiKeyExposed: result.sensitiveDataTypes.includes('apiKey') || result.sensitiveDataTypes.includes('openaiKey'),
+        apiKeyExposed: credentialProviders.length > 0,
         complianceFlags: result.sensitiveDataTypes,
         metadata: {
           promptQuality: result.promptQuality,
@@ -510,12 +476,13 @@ export class AIContentAnalyzer {
         this.dashboardSync.recordSecurityAlert({
           userId: userProfile?.email || 'unknown',
           userEmail: userProfile?.email || 'unknown',
-          alertType: result.sensitiveDataTypes.includes('apiKey') ? 'api_key_exposure' : 'sensitive_data',
+          alertType: credentialProviders.length > 0 ? 'api_key_exposure' : 'sensitive_data',
           severity: result.riskLevel === 'critical' ? 'critical' : result.riskLevel,
           description: this.generateAlertDescription(result),
           aiTool: result.aiToolDetected || 'unknown',
-          content: this.sanitizeContentForAlert(extractedText),
+          content: this.sanitizeContentForAlert(extractedText, result.findings),
           actionTaken: result.suggestions.length > 0 ? 'suggestions_provided' : 'user_notified',
+          credentialProviders,
           resolved: false
         });
       }
@@ -524,13 +491,11 @@ export class AIContentAnalyzer {
     }
   }
 
-  private getUserProfile(): any {
-    try {
-      const profile = localStorage.getItem('damUserProfile');
-      return profile ? JSON.parse(profile) : null;
-    } catch {
-      return null;
-    }
+  private getUserProfile(): { email: string | null; role: string | null } {
+    return {
+      email: this.configService.get<string | null>('enterprise.userEmail', null),
+      role: this.configService.get<string | null>('enterprise.userRole', null)
+    };
   }
 
   private categorizeContent(content: string): string {
@@ -572,8 +537,11 @@ export class AIContentAnalyzer {
   private generateAlertDescription(result: AnalysisResult): string {
     const descriptions = [];
     
-    if (result.sensitiveDataTypes.includes('apiKey')) {
-      descriptions.push('API key detected in prompt');
+    const credentials = result.findings
+      .filter(finding => isUserFinding(finding) && finding.category === 'secret' && finding.provider)
+      .map(finding => this.detectorRegistry.getDetector(finding.detectorId)?.description || `${finding.provider} credential`);
+    if (credentials.length > 0) {
+      descriptions.push(`Credentials detected in prompt, rotate: ${Array.from(new Set(credentials)).join(', ')}`);
     }
     if (result.sensitiveDataTypes.includes('ssn')) {
       descriptions.push('Social Security Number detected');
@@ -593,19 +561,32 @@ export class AIContentAnalyzer {
       : `${result.riskLevel} risk activity detected in AI interaction`;
   }
 
-  private sanitizeContentForAlert(content: string): string {
+  private getCredentialProviders(findings: SensitiveDataFinding[]): string[] {
+    const providers = findings
+      .filter(finding => finding.category === 'secret' && finding.provider)
+      .map(finding => finding.provider as string);
+    return Array.from(new Set(providers));
+  }
+
+  private sanitizeContentForAlert(content: string, findings: SensitiveDataFinding[]): string {
     // Remove actual sensitive data but keep context for security team
-    let sanitized = content;
-    
-    // Replace API keys with placeholder
-    sanitized = sanitized.replace(this.sensitivePatterns.apiKey, '[API_KEY_REDACTED]');
-    sanitized = sanitized.replace(this.sensitivePatterns.openaiKey, '[OPENAI_KEY_REDACTED]');
-    
-    // Replace SSN with placeholder
-    sanitized = sanitized.replace(this.sensitivePatterns.ssn, '[SSN_REDACTED]');
-    
-    // Replace credit card with placeholder
-    sanitized = sanitized.replace(this.sensitivePatterns.creditCard, '[CREDIT_CARD_REDACTED]');
+    let sanitized = '';
+    let cursor = 0;
+    
+    // Every finding is something the user should not have shared, whatever its category.
+    // An overlapping finding widens the span already redacted, so no tail is left in clear text
+    const ordered = [...findings].sort((a, b) => a.start - b.start);
+    for (const finding of ordered) {
+      if (finding.start < cursor) {
+        cursor = Math.max(cursor, finding.end);
+        continue;
+      }
+      
+      const label = finding.type.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+      sanitized += content.substring(cursor, finding.start) + `[${label}_REDACTED]`;
+      cursor = finding.end;
+    }
+    sanitized += content.substring(cursor);
     
     // Truncate if too long
     if (sanitized.length > 500) {
@@ -1,28 +1,18 @@
 import { Logger } from '../utils/Logger';
+import { SensitiveDataRegistry } from './SensitiveDataRegistry';
+import { AIToolRegistry } from './AIToolRegistry';
 import * as crypto from 'crypto';
 
 export class AIDetectionService {
   private static instance: AIDetectionService;
   private logger: Logger;
-  private knownAITools: Set<string>;
+  private detectorRegistry: SensitiveDataRegistry;
+  private toolRegistry: AIToolRegistry;
 
   private constructor() {
     this.logger = Logger.getInstance();
-    this.knownAITools = new Set([
-      'chatgpt',
-      'claude',
-      'copilot',
-      'gemini',
-      'bard',
-      'midjourney',
-      'dall-e',
-      'stable diffusion',
-      'character.ai',
-      'perplexity',
-      'jasper',
-      'writesonic',
-      'copy.ai'
-    ]);
+    this.detectorRegistry = SensitiveDataRegistry.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
   }
 
   public static getInstance(): AIDetectionService {
@@ -93,50 +83,7 @@ export class AIDetectionService {
   }
 
   private identifyAITool(windowName: string): string | null {
-    for (const tool of this.knownAITools) {
-      if (windowName.includes(tool)) {
-        return tool;
-      }
-    }
-
-    // Check for common AI-related URLs or patterns
-    const aiPatterns = [
-      'openai.com',
-      'chat.openai.com',
-      'claude.ai',
-      'bard.google.com',
-      'github.com/features/copilot',
-      'midjourney.com',
-      'beta.character.ai'
-    ];
-
-    for (const pattern of aiPatterns) {
-      if (windowName.includes(pattern)) {
-        return this.mapUrlToTool(pattern);
-      }
-    }
-
-    return null;
-  }
-
-  private mapUrlToTool(url: string): string {
-    const mapping: { [key: string]: string } = {
-      'openai.com': 'chatgpt',
-      'chat.openai.com': 'chatgpt',
-      'claude.ai': 'claude',
-      'bard.google.com': 'bard',
-      'copilot': 'copilot',
-      'midjourney.com': 'midjourney',
-      'character.ai': 'character.ai'
-    };
-
-    for (const [pattern, tool] of Object.entries(mapping)) {
-      if (url.includes(pattern)) {
-        return tool;
-      }
-    }
-
-    return 'unknown';
+    return this.toolRegistry.getCatalog().matchText(windowName)?.id ?? null;
   }
 
   private async analyzeWindowContent(window: any): Promise<any> {
@@ -190,30 +137,17 @@ export class AIDetectionService {
   private estimateCost(tool: string, content: string): number {
     const tokens = this.estimateTokens(content);
     
-    // Rough cost estimates per 1000 tokens (in USD)
-    const costPer1000Tokens: { [key: string]: number } = {
-      'chatgpt': 0.002,
-      'claude': 0.008,
-      'copilot': 0.001,
-      'gemini': 0.0005,
-      'bard': 0.0005
-    };
-
-    const rate = costPer1000Tokens[tool] || 0.002;
+    // Rough cost estimates per 1000 tokens (in USD) come from the tool catalog
+    const rate = this.toolRegistry.getCatalog().get(tool)?.pricing?.costPer1kTokens ?? 0.002;
     return (tokens / 1000) * rate;
   }
 
   private detectPII(content: string): boolean {
     if (!content) return false;
     
-    // Simple PII detection patterns
-    const piiPatterns = [
-      /\b\d{3}-\d{2}-\d{4}\b/, // SSN
-      /\b\d{4}[- ]?\d{4}[- ]?\d{4}[- ]?\d{4}\b/, // Credit card
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/, // Email
-      /\b\d{3}-\d{3}-\d{4}\b/, // Phone number
-    ];
-
-    return piiPatterns.some(pattern => pattern.test(content));
+    // Same detectors the content analyzer uses, limited to personal data
+    return this.detectorRegistry
+      .scan(content, ['pii', 'financial'])
+      .some(finding => finding.category === 'pii' || finding.type === 'creditCard');
   }
 }
\ No newline at end of file
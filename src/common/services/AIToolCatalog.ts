@@ -0,0 +1,265 @@
+import toolCatalog from '../data/ai-tool-catalog.json';
+
+export type AIToolRiskTier = 'low' | 'medium' | 'high';
+
+export interface AIToolProcess {
+  program: string; // Executable or script name, without extension
+  subcommand?: string; // First positional argument, for tools that live inside a larger CLI
+  packagePath?: string; // Regex for the script path when a runtime launches the package directly
+}
+
+export interface AIToolDefinition {
+  id: string; // Canonical id recorded on every usage event
+  name: string;
+  vendor?: string;
+  category: string;
+  aliases?: string[]; // Other names policies and older records use for the tool
+  domains?: string[]; // Web app hosts; subdomains match too
+  apiHosts?: string[]; // Hosts SDKs, IDE plugins and scripts connect to
+  windowPatterns?: string[]; // Case-insensitive regexes for the tool's desktop app window titles
+  processes?: AIToolProcess[];
+  pricing?: { plan?: string; costPer1kTokens?: number };
+  riskTier: AIToolRiskTier;
+  url?: string;
+  description?: string;
+  features?: string[];
+  tags?: string[];
+  useCase?: string;
+  taskCategories?: string[]; // Task keywords the assistant recommends the tool for
+  strengths?: string[];
+}
+
+export interface AIToolCatalogFile {
+  version: string;
+  updated: string;
+  tools: AIToolDefinition[];
+}
+
+// A known id updates that tool field by field, an unknown id adds a tool, `disabled` removes one
+export type AIToolOverride = Partial<AIToolDefinition> & { id: string; disabled?: boolean };
+
+const TOOL_ID = /^[a-z0-9][a-z0-9.-]{0,63}$/;
+const RISK_TIERS: AIToolRiskTier[] = ['low', 'medium', 'high'];
+const INTERPRETERS = /^(node|nodejs|bun|deno|python[\d.]*|pypy[\d.]*)$/;
+
+export function getBundledToolCatalog(): AIToolCatalogFile {
+  return toolCatalog as AIToolCatalogFile;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match for names such as "Claude" or "Copy.ai"
+function wordPattern(value: string): RegExp {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(value.toLowerCase())}($|[^a-z0-9])`, 'i');
+}
+
+// Web and desktop tools; tools with no other way to be found also count
+function isScreenTool(tool: AIToolDefinition): boolean {
+  if (tool.domains?.length || tool.windowPatterns?.length) {
+    return true;
+  }
+  return !tool.processes?.length && !tool.apiHosts?.length;
+}
+
+function programName(arg: string): string {
+  const base = arg.split(/[\\/]/).pop() || arg;
+  return base.replace(/\.(c?js|mjs|py|exe)$/i, '');
+}
+
+/**
+ * Checks a tool definition, from the bundled file or an override, before it
+ * is used. Returns what is wrong, or null when the definition is usable.
+ */
+export function validateToolDefinition(tool: any): string | null {
+  if (!tool || typeof tool !== 'object') return 'must be an object';
+  if (typeof tool.id !== 'string' || !TOOL_ID.test(tool.id)) return 'id must be a lowercase identifier';
+  if (typeof tool.name !== 'string' || !tool.name.trim()) return 'name is required';
+  if (typeof tool.category !== 'string') return 'category is required';
+  if (!RISK_TIERS.includes(tool.riskTier)) return `riskTier must be one of ${RISK_TIERS.join(', ')}`;
+
+  for (const field of ['aliases', 'domains', 'apiHosts', 'windowPatterns', 'features', 'tags', 'taskCategories', 'strengths']) {
+    if (tool[field] !== undefined && !isStringArray(tool[field])) return `${field} must be an array of strings`;
+  }
+
+  const patterns: string[] = [...(tool.windowPatterns || [])];
+  if (tool.processes !== undefined) {
+    if (!Array.isArray(tool.processes)) return 'processes must be an array';
+    for (const entry of tool.processes) {
+      if (!entry || typeof entry.program !== 'string') return 'every process needs a program';
+      if (entry.packagePath !== undefined) patterns.push(entry.packagePath);
+    }
+  }
+
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return `invalid pattern ${pattern}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Applies overrides to the bundled tools. Invalid results are skipped and
+ * reported, so a bad dashboard entry cannot take detection down.
+ */
+export function mergeToolCatalog(
+  base: AIToolDefinition[],
+  overrides: AIToolOverride[]
+): { tools: AIToolDefinition[]; errors: string[] } {
+  const tools = new Map(base.map(tool => [tool.id, tool]));
+  const errors: string[] = [];
+
+  for (const override of overrides) {
+    const id = override?.id;
+    if (typeof id !== 'string') {
+      errors.push('Tool override without an id');
+      continue;
+    }
+
+    if (override.disabled) {
+      tools.delete(id);
+      continue;
+    }
+
+    const merged = { ...tools.get(id), ...override } as AIToolDefinition & { disabled?: boolean };
+    delete merged.disabled;
+    const problem = validateToolDefinition(merged);
+    if (problem) {
+      errors.push(`Tool ${id}: ${problem}`);
+      continue;
+    }
+    tools.set(id, merged);
+  }
+
+  return { tools: Array.from(tools.values()), errors };
+}
+
+export class AIToolCatalog {
+  private byId: Map<string, AIToolDefinition>;
+  private byName = new Map<string, AIToolDefinition>();
+
+  constructor(private tools: AIToolDefinition[], public readonly version: string) {
+    this.byId = new Map(tools.map(tool => [tool.id, tool]));
+    for (const tool of tools) {
+      for (const name of [tool.id, tool.name, ...(tool.aliases || [])]) {
+        const key = name.toLowerCase();
+        if (!this.byName.has(key)) this.byName.set(key, tool);
+      }
+    }
+  }
+
+  public list(): AIToolDefinition[] {
+    return [...this.tools];
+  }
+
+  public get(id: string): AIToolDefinition | undefined {
+    return this.byId.get(id);
+  }
+
+  // Maps an id, display name or alias ("ChatGPT", "bard") to the canonical id
+  public resolveId(nameOrId: string): string | null {
+    return this.byName.get(nameOrId.trim().toLowerCase())?.id ?? null;
+  }
+
+  /**
+   * Only a host that is a tool domain or its subdomain counts, so
+   * chatgpt.com.example.org does not. The longest matching domain wins:
+   * api.perplexity.ai is the API, not the perplexity.ai web app.
+   */
+  public matchHost(host: string): AIToolDefinition | null {
+    const hostname = host.toLowerCase().replace(/\.$/, '');
+    let best: { tool: AIToolDefinition; length: number } | null = null;
+    for (const tool of this.tools) {
+      for (const domain of [...(tool.domains || []), ...(tool.apiHosts || [])]) {
+        if ((hostname === domain || hostname.endsWith(`.${domain}`)) && domain.length > (best?.length ?? 0)) {
+          best = { tool, length: domain.length };
+        }
+      }
+    }
+    return best?.tool ?? null;
+  }
+
+  public matchUrl(url: string): AIToolDefinition | null {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? this.matchHost(parsed.hostname) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Browser window titles carry the page title and sometimes the address.
+   * A tool domain in the title or the page text wins, then a web tool's
+   * name in the title; a page that only mentions a tool is not the tool.
+   */
+  public matchBrowserTitle(title: string, pageText = ''): AIToolDefinition | null {
+    const webTools = this.tools.filter(tool => tool.domains && tool.domains.length > 0);
+    const text = `${title} ${pageText}`;
+    return webTools.find(tool => tool.domains!.some(domain => wordPattern(domain).test(text))) ||
+      webTools.find(tool => wordPattern(tool.name).test(title)) ||
+      null;
+  }
+
+  public matchDesktopWindow(title: string): AIToolDefinition | null {
+    return this.tools.find(tool =>
+      (tool.windowPatterns || []).some(pattern => new RegExp(pattern, 'i').test(title))
+    ) || null;
+  }
+
+  /**
+   * Screen text names a tool by domain or name; catalog order breaks ties.
+   * Only tools used in a browser or app window count: CLI and API tools are
+   * found by process and host, and their names ("LLM", "codex") are common
+   * words in any text. Aliases are left out for the same reason, "anthropic"
+   * in an article is not the Claude app.
+   */
+  public matchText(text: string): AIToolDefinition | null {
+    return this.tools.find(tool =>
+      isScreenTool(tool) && [...(tool.domains || []), tool.name].some(term => wordPattern(term).test(text))
+    ) || null;
+  }
+
+  /**
+   * Finds the tool an argv belongs to. Runtimes are looked through, so
+   * `node .../claude-code/cli.js` and `python3 -m aider` match like the
+   * installed launchers do.
+   */
+  public matchProcess(argv: string[]): AIToolDefinition | null {
+    if (argv.length === 0) {
+      return null;
+    }
+
+    let program = programName(argv[0]);
+    let rest = argv.slice(1);
+
+    if (INTERPRETERS.test(program)) {
+      const moduleFlag = rest.indexOf('-m');
+      const scriptIndex = moduleFlag >= 0 ? moduleFlag + 1 : rest.findIndex(arg => !arg.startsWith('-'));
+      if (scriptIndex < 0 || scriptIndex >= rest.length) {
+        return null;
+      }
+      program = programName(rest[scriptIndex]);
+      rest = rest.slice(scriptIndex + 1);
+    }
+
+    const firstPositional = rest.find(arg => !arg.startsWith('-'));
+    return this.tools.find(tool => (tool.processes || []).some(entry =>
+      (entry.packagePath !== undefined && argv.some(arg => new RegExp(entry.packagePath!, 'i').test(arg))) ||
+      (program === entry.program && (!entry.subcommand || firstPositional === entry.subcommand))
+    )) || null;
+  }
+
+  public listApiHosts(): Array<{ host: string; tool: AIToolDefinition }> {
+    return this.tools.flatMap(tool => (tool.apiHosts || []).map(host => ({ host, tool })));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import {
+  AIToolCatalog,
+  AIToolOverride,
+  getBundledToolCatalog,
+  mergeToolCatalog,
+  validateToolDefinition
+} from './AIToolCatalog';
+
+/**
+ * Holds the AI tool catalog every detector reads: the bundled catalog with
+ * local overrides (`catalog.custom`, for admins and managed installs) and
+ * dashboard overrides (cached in `catalog.remote`) applied on top.
+ */
+export class AIToolRegistry {
+  private static instance: AIToolRegistry;
+  private logger: Logger;
+  private configService: ConfigService;
+  private catalog: AIToolCatalog;
+  private listeners: Array<(catalog: AIToolCatalog) => void> = [];
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.catalog = this.build();
+  }
+
+  public static getInstance(): AIToolRegistry {
+    if (!AIToolRegistry.instance) {
+      AIToolRegistry.instance = new AIToolRegistry();
+    }
+    return AIToolRegistry.instance;
+  }
+
+  public getCatalog(): AIToolCatalog {
+    return this.catalog;
+  }
+
+  public onChange(listener: (catalog: AIToolCatalog) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  public applyDashboardOverrides(overrides: AIToolOverride[]): void {
+    // The dashboard resends the catalog on every sync; an unchanged one needs no rebuild
+    const current = this.configService.get<AIToolOverride[]>('catalog.remote', []);
+    if (JSON.stringify(current) === JSON.stringify(overrides)) {
+      return;
+    }
+
+    this.configService.set('catalog.remote', overrides);
+    this.reload();
+    this.logger.info(`Applied ${overrides.length} dashboard AI tool override(s)`);
+  }
+
+  public reload(): void {
+    this.catalog = this.build();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(this.catalog);
+      } catch (error) {
+        this.logger.error('AI tool catalog listener failed:', error);
+      }
+    }
+  }
+
+  private build(): AIToolCatalog {
+    const bundled = getBundledToolCatalog();
+
+    for (const tool of bundled.tools) {
+      const problem = validateToolDefinition(tool);
+      if (problem) {
+        this.logger.error(`Bundled AI tool ${tool.id} is invalid: ${problem}`);
+      }
+    }
+
+    // Dashboard entries come last so organisation policy wins over a local edit
+    const overrides = [
+      ...this.configService.get<AIToolOverride[]>('catalog.custom', []),
+      ...this.configService.get<AIToolOverride[]>('catalog.remote', [])
+    ];
+    const { tools, errors } = mergeToolCatalog(bundled.tools, overrides);
+    for (const error of errors) {
+      this.logger.error(`Invalid AI tool override: ${error}`);
+    }
+
+    if (overrides.length > 0) {
+      this.logger.info(`AI tool catalog v${bundled.version} with ${overrides.length} override(s): ${tools.length} tools`);
+    }
+    return new AIToolCatalog(tools, bundled.version);
+  }
+}
\ No newline at end of file
@@ -1,8 +1,11 @@
 import { Logger } from '../utils/Logger';
+import { AIToolDefinition } from './AIToolCatalog';
+import { AIToolRegistry } from './AIToolRegistry';
 
 export interface AIWindowInfo {
   isAIWindow: boolean;
-  platform?: string;
+  toolId?: string; // Canonical catalog id
+  platform?: string; // Display name
   url?: string;
   appName?: string;
 }
@@ -10,42 +13,11 @@ export interface AIWindowInfo {
 export class AIWindowDetector {
   private static instance: AIWindowDetector;
   private logger: Logger;
-
-  // AI platform URLs to monitor
-  private aiPlatformUrls = [
-    // OpenAI
-    { pattern: /https?:\/\/(www\.)?chatgpt\.com/i, platform: 'ChatGPT' },
-    { pattern: /https?:\/\/chat\.openai\.com/i, platform: 'ChatGPT' },
-    
-    // Claude
-    { pattern: /https?:\/\/(www\.)?claude\.ai/i, platform: 'Claude' },
-    { pattern: /https?:\/\/claude\.anthropic\.com/i, platform: 'Claude' },
-    
-    // Google
-    { pattern: /https?:\/\/gemini\.google\.com/i, platform: 'Gemini' },
-    { pattern: /https?:\/\/bard\.google\.com/i, platform: 'Gemini' },
-    
-    // Perplexity
-    { pattern: /https?:\/\/(www\.)?perplexity\.ai/i, platform: 'Perplexity' }
-  ];
-
-  // Terminal and app patterns for AI usage
-  private terminalAIPatterns = [
-    { pattern: /claude\s+(-|--)?/i, platform: 'Claude CLI' },
-    { pattern: /gemini\s+(-|--)?/i, platform: 'Gemini CLI' },
-    { pattern: /openai\s+(-|--)?/i, platform: 'OpenAI CLI' },
-    { pattern: /chatgpt\s+(-|--)?/i, platform: 'ChatGPT CLI' }
-  ];
-
-  // Desktop app window names
-  private aiDesktopApps = [
-    { pattern: /claude.*desktop|claude\s*app/i, platform: 'Claude Desktop' },
-    { pattern: /chatgpt.*desktop|openai.*app/i, platform: 'ChatGPT Desktop' },
-    { pattern: /gemini.*desktop|gemini\s*app/i, platform: 'Gemini Desktop' }
-  ];
+  private toolRegistry: AIToolRegistry;
 
   private constructor() {
     this.logger = Logger.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
   }
 
   public static getInstance(): AIWindowDetector {
@@ -55,19 +27,18 @@ export class AIWindowDetector {
     return AIWindowDetector.instance;
   }
 
-  public detectAIWindow(windowTitle: string, extractedText: string): AIWindowInfo {
+  public detectAIWindow(windowTitle: string, extractedText: string, url?: string | null): AIWindowInfo {
+    // A resolved tab URL is authoritative; a page merely about an AI tool is not the tool
+    if (url) {
+      return this.checkUrl(url);
+    }
+
     // Check if it's a browser with AI platform
     const browserMatch = this.checkBrowserAIPlatform(windowTitle, extractedText);
     if (browserMatch.isAIWindow) {
       return browserMatch;
     }
 
-    // Check if it's a terminal with AI command
-    const terminalMatch = this.checkTerminalAI(windowTitle, extractedText);
-    if (terminalMatch.isAIWindow) {
-      return terminalMatch;
-    }
-
     // Check if it's a desktop AI app
     const desktopMatch = this.checkDesktopAIApp(windowTitle);
     if (desktopMatch.isAIWindow) {
@@ -77,6 +48,12 @@ export class AIWindowDetector {
     return { isAIWindow: false };
   }
 
+  private checkUrl(url: string): AIWindowInfo {
+    // The whole host has to be a tool domain, so chatgpt.com.example.org or a link in the query does not count
+    const tool = this.toolRegistry.getCatalog().matchUrl(url);
+    return tool ? this.toWindowInfo(tool, { url }) : { isAIWindow: false, url };
+  }
+
   private checkBrowserAIPlatform(windowTitle: string, extractedText: string): AIWindowInfo {
     const windowTitleLower = windowTitle.toLowerCase();
     
@@ -91,76 +68,22 @@ export class AIWindowDetector {
       return { isAIWindow: false };
     }
 
-    // Look for URL patterns in window title or extracted text
-    const combinedText = `${windowTitle} ${extractedText}`;
-    
-    for (const urlPattern of this.aiPlatformUrls) {
-      if (urlPattern.pattern.test(combinedText)) {
-        // Extract the actual URL if possible
-        const urlMatch = combinedText.match(urlPattern.pattern);
-        return {
-          isAIWindow: true,
-          platform: urlPattern.platform,
-          url: urlMatch ? urlMatch[0] : undefined
-        };
-      }
-    }
-
-    // Also check for platform names in title (browser tabs often show site name)
-    for (const platform of ['ChatGPT', 'Claude', 'Gemini', 'Perplexity']) {
-      if (windowTitleLower.includes(platform.toLowerCase())) {
-        return {
-          isAIWindow: true,
-          platform: platform
-        };
-      }
-    }
-
-    return { isAIWindow: false };
-  }
-
-  private checkTerminalAI(windowTitle: string, extractedText: string): AIWindowInfo {
-    const windowTitleLower = windowTitle.toLowerCase();
-    
-    // Check if it's a terminal window
-    const isTerminal = windowTitleLower.includes('terminal') || 
-                      windowTitleLower.includes('iterm') || 
-                      windowTitleLower.includes('console') ||
-                      windowTitleLower.includes('powershell') ||
-                      windowTitleLower.includes('cmd');
-
-    if (!isTerminal) {
-      return { isAIWindow: false };
-    }
-
-    // Look for AI CLI commands in extracted text
-    for (const pattern of this.terminalAIPatterns) {
-      if (pattern.pattern.test(extractedText)) {
-        return {
-          isAIWindow: true,
-          platform: pattern.platform,
-          appName: 'Terminal'
-        };
-      }
-    }
-
-    return { isAIWindow: false };
+    const tool = this.toolRegistry.getCatalog().matchBrowserTitle(windowTitle, extractedText);
+    return tool ? this.toWindowInfo(tool) : { isAIWindow: false };
   }
 
   private checkDesktopAIApp(windowTitle: string): AIWindowInfo {
-    const windowTitleLower = windowTitle.toLowerCase();
-    
-    for (const app of this.aiDesktopApps) {
-      if (app.pattern.test(windowTitleLower)) {
-        return {
-          isAIWindow: true,
-          platform: app.platform,
-          appName: app.platform
-        };
-      }
-    }
+    const tool = this.toolRegistry.getCatalog().matchDesktopWindow(windowTitle);
+    return tool ? this.toWindowInfo(tool, { appName: tool.name }) : { isAIWindow: false };
+  }
 
-    return { isAIWindow: false };
+  private toWindowInfo(tool: AIToolDefinition, extra: Partial<AIWindowInfo> = {}): AIWindowInfo {
+    return {
+      isAIWindow: true,
+      toolId: tool.id,
+      platform: tool.name,
+      ...extra
+    };
   }
 
   public shouldShowNotification(
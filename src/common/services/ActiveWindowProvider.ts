@@ -0,0 +1,118 @@
+import { desktopCapturer } from 'electron';
+import { Logger } from '../utils/Logger';
+import { X11WindowProvider, SwayWindowProvider, HyprlandWindowProvider } from './LinuxWindowProviders';
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ActiveWindowInfo {
+  title: string;
+  appName: string;
+  pid: number | null;
+  executable: string | null;
+  bounds: WindowBounds | null; // Physical screen pixels, null when the platform cannot tell
+  windowId: string | null;
+  source: 'x11' | 'sway' | 'hyprland' | 'desktopCapturer';
+}
+
+export interface ActiveWindowProvider {
+  readonly name: string;
+  isSupported(): Promise<boolean>;
+  getActiveWindow(): Promise<ActiveWindowInfo | null>;
+}
+
+/**
+ * Last-resort provider: desktopCapturer lists windows without focus
+ * information, so the first source is only a guess and bounds are unknown.
+ */
+export class DesktopCapturerWindowProvider implements ActiveWindowProvider {
+  public readonly name = 'desktopCapturer';
+
+  public async isSupported(): Promise<boolean> {
+    return true;
+  }
+
+  public async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    const sources = await desktopCapturer.getSources({
+      types: ['window'],
+      thumbnailSize: { width: 0, height: 0 }
+    });
+
+    if (sources.length === 0) {
+      return null;
+    }
+
+    return {
+      title: sources[0].name,
+      appName: sources[0].name,
+      pid: null,
+      executable: null,
+      bounds: null,
+      windowId: sources[0].id,
+      source: 'desktopCapturer'
+    };
+  }
+}
+
+/**
+ * Tries each provider in order and sticks with the first one that reports
+ * itself supported on this session.
+ */
+export class FallbackWindowProvider implements ActiveWindowProvider {
+  public readonly name = 'fallback';
+  private logger: Logger;
+  private selected: ActiveWindowProvider | null = null;
+
+  constructor(private providers: ActiveWindowProvider[]) {
+    this.logger = Logger.getInstance();
+  }
+
+  public async isSupported(): Promise<boolean> {
+    return (await this.select()) !== null;
+  }
+
+  public async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    const provider = await this.select();
+    return provider ? provider.getActiveWindow() : null;
+  }
+
+  private async select(): Promise<ActiveWindowProvider | null> {
+    if (this.selected) {
+      return this.selected;
+    }
+
+    for (const provider of this.providers) {
+      try {
+        if (await provider.isSupported()) {
+          this.selected = provider;
+          this.logger.info(`Using ${provider.name} active window provider`);
+          if (provider.name === 'desktopCapturer') {
+            this.logger.warn('Focused window cannot be determined on this session, window titles are best effort');
+          }
+          return provider;
+        }
+      } catch (error) {
+        this.logger.warn(`Active window provider ${provider.name} unavailable:`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+export function createActiveWindowProvider(): ActiveWindowProvider {
+  if (process.platform === 'linux') {
+    const wayland = process.env.XDG_SESSION_TYPE === 'wayland' || !!process.env.WAYLAND_DISPLAY;
+
+    // On Wayland, X11 only sees XWayland clients, so compositor IPC comes first
+    return new FallbackWindowProvider(wayland
+      ? [new SwayWindowProvider(), new HyprlandWindowProvider(), new DesktopCapturerWindowProvider()]
+      : [new X11WindowProvider(), new DesktopCapturerWindowProvider()]);
+  }
+
+  return new DesktopCapturerWindowProvider();
+}
\ No newline at end of file
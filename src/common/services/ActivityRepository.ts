@@ -0,0 +1,193 @@
+import { DatabaseService } from './DatabaseService';
+import { AnalysisRepository } from './AnalysisRepository';
+import {
+  AlertQuery,
+  AlertRecord,
+  SessionQuery,
+  SessionRecord,
+  TerminalSessionQuery,
+  TerminalSessionRecord,
+  TimeRangeQuery,
+  UsageSummary
+} from '../types/DataAPI';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Read models for usage, alerts and sessions exposed to the renderer
+export class ActivityRepository {
+  private static instance: ActivityRepository;
+  private databaseService: DatabaseService;
+  private analysisRepository: AnalysisRepository;
+
+  private constructor() {
+    this.databaseService = DatabaseService.getInstance();
+    this.analysisRepository = AnalysisRepository.getInstance();
+  }
+
+  public static getInstance(): ActivityRepository {
+    if (!ActivityRepository.instance) {
+      ActivityRepository.instance = new ActivityRepository();
+    }
+    return ActivityRepository.instance;
+  }
+
+  public async getUsageSummary(query: TimeRangeQuery = {}): Promise<UsageSummary> {
+    const { where, params } = this.timeRange('timestamp', query);
+
+    const rows = await this.databaseService.query(
+      `SELECT ai_tool, COUNT(*) AS events, COALESCE(SUM(tokens_used), 0) AS tokens, COALESCE(SUM(cost_estimate), 0) AS cost
+       FROM ai_usage ${this.whereClause(where)}
+       GROUP BY ai_tool
+       ORDER BY events DESC`,
+      params
+    );
+
+    const byTool = rows.map(row => ({ tool: row.ai_tool, events: row.events, tokens: row.tokens, cost: row.cost }));
+
+    return {
+      from: query.from ?? null,
+      to: query.to ?? null,
+      totalEvents: byTool.reduce((sum, tool) => sum + tool.events, 0),
+      totalTokens: byTool.reduce((sum, tool) => sum + tool.tokens, 0),
+      totalCost: byTool.reduce((sum, tool) => sum + tool.cost, 0),
+      byTool,
+      analyses: await this.analysisRepository.count(query),
+      riskCounts: await this.analysisRepository.countByRiskLevel(query)
+    };
+  }
+
+  public async listAlerts(query: AlertQuery = {}): Promise<AlertRecord[]> {
+    const { where, params } = this.timeRange('created_at', query);
+
+    if (query.resolved !== undefined) {
+      where.push('resolved = ?');
+      params.push(query.resolved ? 1 : 0);
+    }
+    if (query.type) {
+      where.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.severity) {
+      where.push('severity = ?');
+      params.push(query.severity);
+    }
+
+    const rows = await this.databaseService.query(
+      `SELECT * FROM alerts ${this.whereClause(where)} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, ...this.page(query)]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      severity: row.severity,
+      message: row.message,
+      data: this.parseJSON(row.data),
+      resolved: !!row.resolved,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at
+    }));
+  }
+
+  public async resolveAlert(id: number): Promise<boolean> {
+    const result = await this.databaseService.run(
+      'UPDATE alerts SET resolved = 1, resolved_at = CURRENT_TIMESTAMP WHERE id = ? AND resolved = 0',
+      [id]
+    );
+    return result.changes > 0;
+  }
+
+  public async getSessionHistory(query: SessionQuery = {}): Promise<SessionRecord[]> {
+    const { where, params } = this.timeRange('s.start_time', query);
+
+    const rows = await this.databaseService.query(
+      `SELECT s.*, (SELECT COUNT(*) FROM analyses a WHERE a.session_id = s.id) AS analyses
+       FROM monitoring_sessions s ${this.whereClause(where)}
+       ORDER BY s.start_time DESC, s.id DESC LIMIT ? OFFSET ?`,
+      [...params, ...this.page(query)]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      totalUsage: row.total_usage,
+      totalCost: row.total_cost,
+      analyses: row.analyses
+    }));
+  }
+
+  public async listTerminalSessions(query: TerminalSessionQuery = {}): Promise<TerminalSessionRecord[]> {
+    const where: string[] = [];
+    const params: any[] = [];
+
+    // started_at is epoch ms, so the range compares numbers rather than dates
+    if (query.from !== undefined) {
+      where.push('started_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      where.push('started_at < ?');
+      params.push(query.to);
+    }
+    if (query.tool) {
+      where.push('tool = ?');
+      params.push(query.tool);
+    }
+    if (query.active !== undefined) {
+      where.push(query.active ? 'ended_at IS NULL' : 'ended_at IS NOT NULL');
+    }
+
+    const rows = await this.databaseService.query(
+      `SELECT * FROM terminal_ai_sessions ${this.whereClause(where)} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, ...this.page(query)]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      tool: row.tool,
+      command: row.command,
+      pid: row.pid,
+      terminalApp: row.terminal_app,
+      terminalPid: row.terminal_pid,
+      windowTitle: row.window_title,
+      startedAt: row.started_at,
+      endedAt: row.ended_at
+    }));
+  }
+
+  // Columns mix CURRENT_TIMESTAMP and ISO strings, julianday() reads both
+  private timeRange(column: string, query: TimeRangeQuery): { where: string[]; params: any[] } {
+    const where: string[] = [];
+    const params: any[] = [];
+
+    if (query.from !== undefined) {
+      where.push(`julianday(${column}) >= julianday(?)`);
+      params.push(new Date(query.from).toISOString());
+    }
+    if (query.to !== undefined) {
+      where.push(`julianday(${column}) < julianday(?)`);
+      params.push(new Date(query.to).toISOString());
+    }
+
+    return { where, params };
+  }
+
+  private whereClause(conditions: string[]): string {
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private page(query: { limit?: number; offset?: number }): [number, number] {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    return [limit, Math.max(query.offset ?? 0, 0)];
+  }
+
+  private parseJSON(value: string | null): Record<string, any> {
+    try {
+      return value ? JSON.parse(value) : {};
+    } catch {
+      return {};
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { Logger } from '../utils/Logger';
+import { DatabaseService } from './DatabaseService';
+import { ConfigService } from './ConfigService';
+import { AnalysisResult } from './AIContentAnalyzer';
+import { AnalysisQuery, RiskLevel, StoredAnalysis, StoredFinding } from '../types/DataAPI';
+
+export interface AnalysisRecordContext {
+  userId: number;
+  sessionId: number | null;
+  contentHash?: string;
+  ocrConfidence?: number;
+}
+
+export class AnalysisRepository {
+  private static instance: AnalysisRepository;
+  private logger: Logger;
+  private databaseService: DatabaseService;
+  private configService: ConfigService;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.databaseService = DatabaseService.getInstance();
+    this.configService = ConfigService.getInstance();
+  }
+
+  public static getInstance(): AnalysisRepository {
+    if (!AnalysisRepository.instance) {
+      AnalysisRepository.instance = new AnalysisRepository();
+    }
+    return AnalysisRepository.instance;
+  }
+
+  public async save(analysis: AnalysisResult, context: AnalysisRecordContext): Promise<number> {
+    // Rewritten prompts echo what the user typed, so they follow the content storage setting
+    const storeContent = this.configService.get<boolean>('privacy.storeContent', false);
+    const suggestions = storeContent
+      ? analysis.suggestions
+      : analysis.suggestions.map(suggestion => ({ ...suggestion, improvedPrompt: undefined }));
+
+    return this.databaseService.transaction(async () => {
+      const result = await this.databaseService.run(
+        `INSERT INTO analyses (user_id, session_id, ai_tool, risk_level, prompt_quality, sensitive_data_detected,
+           content_hash, ocr_confidence, suggestions, learning_opportunity, analyzed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          context.userId,
+          context.sessionId,
+          analysis.aiToolDetected,
+          analysis.riskLevel,
+          analysis.promptQuality,
+          analysis.sensitiveDataDetected ? 1 : 0,
+          context.contentHash ?? null,
+          context.ocrConfidence ?? null,
+          JSON.stringify(suggestions),
+          analysis.learningOpportunity ? JSON.stringify(analysis.learningOpportunity) : null,
+          analysis.timestamp
+        ]
+      );
+
+      const analysisId = result.lastID;
+      for (const finding of this.groupFindings(analysis)) {
+        await this.databaseService.run(
+          `INSERT INTO analysis_findings (analysis_id, data_type, category, severity, occurrences, max_confidence, providers)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            analysisId,
+            finding.dataType,
+            finding.category,
+            finding.severity,
+            finding.occurrences,
+            finding.maxConfidence,
+            JSON.stringify(finding.providers)
+          ]
+        );
+      }
+
+      return analysisId;
+    });
+  }
+
+  public async find(query: AnalysisQuery = {}): Promise<StoredAnalysis[]> {
+    const { where, params } = this.buildFilter(query);
+    const limit = Math.min(Math.max(query.limit ?? 100, 1), 1000);
+    const offset = Math.max(query.offset ?? 0, 0);
+
+    const rows = await this.databaseService.query(
+      `SELECT * FROM analyses ${where} ORDER BY analyzed_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return this.attachFindings(rows);
+  }
+
+  public async count(query: AnalysisQuery = {}): Promise<number> {
+    const { where, params } = this.buildFilter(query);
+    const row = await this.databaseService.get(`SELECT COUNT(*) AS count FROM analyses ${where}`, params);
+    return row?.count ?? 0;
+  }
+
+  public async getById(id: number): Promise<StoredAnalysis | null> {
+    const rows = await this.databaseService.query('SELECT * FROM analyses WHERE id = ?', [id]);
+    const [analysis] = await this.attachFindings(rows);
+    return analysis || null;
+  }
+
+  public async countByRiskLevel(query: AnalysisQuery = {}): Promise<Record<RiskLevel, number>> {
+    const { where, params } = this.buildFilter(query);
+    const rows = await this.databaseService.query(
+      `SELECT risk_level, COUNT(*) AS count FROM analyses ${where} GROUP BY risk_level`,
+      params
+    );
+
+    const counts: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+    for (const row of rows) {
+      counts[row.risk_level as RiskLevel] = row.count;
+    }
+    return counts;
+  }
+
+  public async countByDataType(query: AnalysisQuery = {}): Promise<Array<{ dataType: string; analyses: number; occurrences: number }>> {
+    const { where, params } = this.buildFilter(query);
+    const rows = await this.databaseService.query(
+      `SELECT f.data_type, COUNT(DISTINCT f.analysis_id) AS analyses, SUM(f.occurrences) AS occurrences
+       FROM analysis_findings f
+       WHERE f.analysis_id IN (SELECT id FROM analyses ${where})
+       GROUP BY f.data_type
+       ORDER BY analyses DESC`,
+      params
+    );
+
+    return rows.map(row => ({ dataType: row.data_type, analyses: row.analyses, occurrences: row.occurrences }));
+  }
+
+  private buildFilter(query: AnalysisQuery): { where: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.from !== undefined) {
+      conditions.push('analyzed_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push('analyzed_at < ?');
+      params.push(query.to);
+    }
+    if (query.aiTool) {
+      conditions.push('ai_tool = ?');
+      params.push(query.aiTool);
+    }
+    if (query.riskLevels && query.riskLevels.length > 0) {
+      conditions.push(`risk_level IN (${query.riskLevels.map(() => '?').join(', ')})`);
+      params.push(...query.riskLevels);
+    }
+    if (query.dataType) {
+      conditions.push('id IN (SELECT analysis_id FROM analysis_findings WHERE data_type = ?)');
+      params.push(query.dataType);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private async attachFindings(rows: any[]): Promise<StoredAnalysis[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(row => row.id);
+    const findingRows = await this.databaseService.query(
+      `SELECT * FROM analysis_findings WHERE analysis_id IN (${ids.map(() => '?').join(', ')}) ORDER BY id`,
+      ids
+    );
+
+    const findingsByAnalysis = new Map<number, StoredFinding[]>();
+    for (const row of findingRows) {
+      const findings = findingsByAnalysis.get(row.analysis_id) || [];
+      findings.push({
+        dataType: row.data_type,
+        category: row.category,
+        severity: row.severity,
+        occurrences: row.occurrences,
+        maxConfidence: row.max_confidence,
+        providers: this.parseJSON(row.providers, [])
+      });
+      findingsByAnalysis.set(row.analysis_id, findings);
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      sessionId: row.session_id,
+      aiTool: row.ai_tool,
+      riskLevel: row.risk_level,
+      promptQuality: row.prompt_quality,
+      sensitiveDataDetected: !!row.sensitive_data_detected,
+      contentHash: row.content_hash,
+      ocrConfidence: row.ocr_confidence,
+      suggestions: this.parseJSON(row.suggestions, []),
+      learningOpportunity: this.parseJSON(row.learning_opportunity, null),
+      analyzedAt: row.analyzed_at,
+      findings: findingsByAnalysis.get(row.id) || []
+    }));
+  }
+
+  private groupFindings(analysis: AnalysisResult): StoredFinding[] {
+    const grouped = new Map<string, StoredFinding>();
+
+    for (const finding of analysis.findings) {
+      const existing = grouped.get(finding.type);
+      if (existing) {
+        existing.occurrences++;
+        existing.maxConfidence = Math.max(existing.maxConfidence, finding.confidence);
+        if (finding.provider && !existing.providers.includes(finding.provider)) {
+          existing.providers.push(finding.provider);
+        }
+      } else {
+        grouped.set(finding.type, {
+          dataType: finding.type,
+          category: finding.category,
+          severity: finding.severity,
+          occurrences: 1,
+          maxConfidence: finding.confidence,
+          providers: finding.provider ? [finding.provider] : []
+        });
+      }
+    }
+
+    return Array.from(grouped.values());
+  }
+
+  private parseJSON<T>(value: string | null, fallback: T): T {
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      this.logger.warn('Failed to parse stored analysis field:', error);
+      return fallback;
+    }
+  }
+}
\ No newline at end of file
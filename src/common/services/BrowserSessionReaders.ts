@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { decodeMozLz4 } from '../utils/MozLz4';
+
+export type BrowserFamily = 'chromium' | 'firefox';
+
+export interface BrowserDefinition {
+  id: string;
+  family: BrowserFamily;
+  match: RegExp; // Tested against app name, executable or title
+  userDataDirs: Partial<Record<NodeJS.Platform, string[]>>;
+}
+
+export interface SessionTab {
+  url: string;
+  title: string;
+  order: number; // Higher is more recently written to the session file
+}
+
+const home = os.homedir();
+const localAppData = process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local');
+const roamingAppData = process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
+const MAX_SESSION_FILE_BYTES = 64 * 1024 * 1024;
+
+// Order matters: Chromium forks also match /chrom/, so they are listed first
+export const BROWSERS: BrowserDefinition[] = [
+  {
+    id: 'brave',
+    family: 'chromium',
+    match: /brave/i,
+    userDataDirs: {
+      linux: [path.join(home, '.config/BraveSoftware/Brave-Browser')],
+      darwin: [path.join(home, 'Library/Application Support/BraveSoftware/Brave-Browser')],
+      win32: [path.join(localAppData, 'BraveSoftware/Brave-Browser/User Data')]
+    }
+  },
+  {
+    id: 'edge',
+    family: 'chromium',
+    match: /microsoft[- ]edge|msedge/i,
+    userDataDirs: {
+      linux: [path.join(home, '.config/microsoft-edge')],
+      darwin: [path.join(home, 'Library/Application Support/Microsoft Edge')],
+      win32: [path.join(localAppData, 'Microsoft/Edge/User Data')]
+    }
+  },
+  {
+    id: 'chromium',
+    family: 'chromium',
+    match: /chromium/i,
+    userDataDirs: {
+      linux: [path.join(home, '.config/chromium'), path.join(home, 'snap/chromium/common/chromium')],
+      darwin: [path.join(home, 'Library/Application Support/Chromium')],
+      win32: [path.join(localAppData, 'Chromium/User Data')]
+    }
+  },
+  {
+    id: 'chrome',
+    family: 'chromium',
+    match: /google[- ]chrome|chrome/i,
+    userDataDirs: {
+      linux: [path.join(home, '.config/google-chrome')],
+      darwin: [path.join(home, 'Library/Application Support/Google/Chrome')],
+      win32: [path.join(localAppData, 'Google/Chrome/User Data')]
+    }
+  },
+  {
+    id: 'firefox',
+    family: 'firefox',
+    match: /firefox|librewolf/i,
+    userDataDirs: {
+      linux: [
+        path.join(home, '.mozilla/firefox'),
+        path.join(home, 'snap/firefox/common/.mozilla/firefox'),
+        path.join(home, '.var/app/org.mozilla.firefox/.mozilla/firefox')
+      ],
+      darwin: [path.join(home, 'Library/Application Support/Firefox/Profiles')],
+      win32: [path.join(roamingAppData, 'Mozilla/Firefox/Profiles')]
+    }
+  }
+];
+
+// Hints are tried in order, so the app name wins over a page title that mentions another browser
+export function identifyBrowser(...hints: Array<string | null | undefined>): BrowserDefinition | null {
+  for (const hint of hints) {
+    if (!hint) continue;
+    const browser = BROWSERS.find(candidate => candidate.match.test(hint));
+    if (browser) return browser;
+  }
+  return null;
+}
+
+function listDirectories(root: string): string[] {
+  try {
+    return fs.readdirSync(root, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(root, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+function newestFile(candidates: string[]): string | null {
+  let newest: string | null = null;
+  let newestTime = 0;
+
+  for (const file of candidates) {
+    try {
+      const stat = fs.statSync(file);
+      if (stat.isFile() && stat.size <= MAX_SESSION_FILE_BYTES && stat.mtimeMs > newestTime) {
+        newest = file;
+        newestTime = stat.mtimeMs;
+      }
+    } catch {
+      // Rotated away between listing and stat
+    }
+  }
+
+  return newest;
+}
+
+/**
+ * Picks the most recently written session file across every profile, which
+ * is the profile the user is browsing in right now.
+ */
+export function findSessionFile(browser: BrowserDefinition): string | null {
+  const candidates: string[] = [];
+
+  for (const userDataDir of browser.userDataDirs[process.platform] || []) {
+    for (const profile of listDirectories(userDataDir)) {
+      if (browser.family === 'firefox') {
+        candidates.push(path.join(profile, 'sessionstore-backups', 'recovery.jsonlz4'));
+        continue;
+      }
+
+      // Chromium 85+ keeps rotating Session_<time> files; older builds write "Current Session"
+      const sessionsDir = path.join(profile, 'Sessions');
+      try {
+        for (const name of fs.readdirSync(sessionsDir)) {
+          if (name.startsWith('Session_')) {
+            candidates.push(path.join(sessionsDir, name));
+          }
+        }
+      } catch {
+        candidates.push(path.join(profile, 'Current Session'));
+      }
+    }
+  }
+
+  return newestFile(candidates);
+}
+
+export function readFirefoxSession(data: Buffer): SessionTab[] {
+  const session = JSON.parse(decodeMozLz4(data).toString('utf8'));
+  const tabs: SessionTab[] = [];
+  let order = 0;
+
+  for (const window of session.windows || []) {
+    for (const tab of window.tabs || []) {
+      const entries = tab.entries || [];
+      // Firefox stores the current history entry as a 1-based index
+      const entry = entries[(tab.index || entries.length) - 1];
+      if (entry?.url) {
+        tabs.push({ url: entry.url, title: entry.title || '', order: order++ });
+      }
+    }
+  }
+
+  return tabs;
+}
+
+// Subset of Chromium's session_service_commands.cc command ids
+const CHROMIUM_UPDATE_TAB_NAVIGATION = 6;
+const CHROMIUM_SET_SELECTED_NAVIGATION_INDEX = 7;
+const CHROMIUM_TAB_CLOSED = 16;
+
+class PickleReader {
+  private offset = 4; // Skips the payload size header
+
+  constructor(private data: Buffer) {}
+
+  public readInt(): number {
+    const value = this.data.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public readString(): string {
+    const length = this.readInt();
+    const value = this.data.toString('utf8', this.offset, this.offset + length);
+    this.offset += Math.ceil(length / 4) * 4;
+    return value;
+  }
+
+  public readString16(): string {
+    const bytes = this.readInt() * 2;
+    const value = this.data.toString('utf16le', this.offset, this.offset + bytes);
+    this.offset += Math.ceil(bytes / 4) * 4;
+    return value;
+  }
+}
+
+/**
+ * Replays a Chromium SNSS session file: a "SNSS" header and version, then
+ * commands of [uint16 size][uint8 id][payload]. Only navigation commands are
+ * needed to know each tab's current URL and title.
+ */
+export function readChromiumSession(data: Buffer): SessionTab[] {
+  if (data.length < 8 || data.toString('latin1', 0, 4) !== 'SNSS') {
+    throw new Error('Not a Chromium session file');
+  }
+
+  const tabs = new Map<number, {
+    navigations: Map<number, { url: string; title: string }>;
+    selected: number | null;
+    order: number;
+  }>();
+  let order = 0;
+  let offset = 8;
+
+  const tabState = (tabId: number) => {
+    let tab = tabs.get(tabId);
+    if (!tab) {
+      tab = { navigations: new Map(), selected: null, order: 0 };
+      tabs.set(tabId, tab);
+    }
+    tab.order = order++;
+    return tab;
+  };
+
+  while (offset + 3 <= data.length) {
+    const size = data.readUInt16LE(offset);
+    if (size === 0 || offset + 2 + size > data.length) break; // Trailing command still being written
+
+    const id = data[offset + 2];
+    const payload = data.subarray(offset + 3, offset + 2 + size);
+    offset += 2 + size;
+
+    try {
+      if (id === CHROMIUM_UPDATE_TAB_NAVIGATION) {
+        const reader = new PickleReader(payload);
+        const tabId = reader.readInt();
+        const index = reader.readInt();
+        const url = reader.readString();
+        const title = reader.readString16();
+        tabState(tabId).navigations.set(index, { url, title });
+      } else if (id === CHROMIUM_SET_SELECTED_NAVIGATION_INDEX && payload.length >= 8) {
+        tabState(payload.readInt32LE(0)).selected = payload.readInt32LE(4);
+      } else if (id === CHROMIUM_TAB_CLOSED && payload.length >= 4) {
+        tabs.delete(payload.readInt32LE(0));
+      }
+    } catch {
+      // A malformed command only loses that tab's update
+    }
+  }
+
+  const result: SessionTab[] = [];
+  for (const tab of tabs.values()) {
+    let current = tab.selected !== null ? tab.navigations.get(tab.selected) : undefined;
+    if (!current && tab.navigations.size > 0) {
+      current = tab.navigations.get(Math.max(...tab.navigations.keys()));
+    }
+    if (current?.url) {
+      result.push({ ...current, order: tab.order });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Browsers title their windows "<tab title> - <browser name>", so the active
+ * tab is the one whose title prefixes the window title. Longer titles win,
+ * then the tab written most recently.
+ */
+export function matchTabToWindowTitle(tabs: SessionTab[], windowTitle: string): SessionTab | null {
+  let best: SessionTab | null = null;
+
+  for (const tab of tabs) {
+    const title = tab.title.trim();
+    if (!title || !windowTitle.startsWith(title)) continue;
+
+    if (!best || title.length > best.title.trim().length ||
+        (title.length === best.title.trim().length && tab.order > best.order)) {
+      best = tab;
+    }
+  }
+
+  return best;
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { ScreenCaptureResult } from './ScreenCaptureService';
+import { OCRService } from './OCRService';
+import {
+  BrowserDefinition,
+  SessionTab,
+  identifyBrowser,
+  findSessionFile,
+  readChromiumSession,
+  readFirefoxSession,
+  matchTabToWindowTitle
+} from './BrowserSessionReaders';
+
+export interface ResolvedUrl {
+  url: string;
+  browser: string;
+  source: string; // Name of the BrowserUrlSource that answered
+}
+
+export interface BrowserUrlSource {
+  readonly name: string;
+  resolve(capture: ScreenCaptureResult, browser: BrowserDefinition): Promise<string | null>;
+}
+
+/**
+ * Reads the browser's own session file and finds the tab whose title the
+ * focused window shows. Browsers flush these files every few seconds, so a
+ * tab opened moments ago may not be there yet.
+ */
+export class SessionFileUrlSource implements BrowserUrlSource {
+  public readonly name = 'session';
+  private cache = new Map<string, { file: string; mtimeMs: number; tabs: SessionTab[] }>(); // By browser id
+
+  public async resolve(capture: ScreenCaptureResult, browser: BrowserDefinition): Promise<string | null> {
+    const file = findSessionFile(browser);
+    if (!file) {
+      return null;
+    }
+
+    const tabs = await this.readTabs(file, browser);
+    return matchTabToWindowTitle(tabs, capture.activeWindow)?.url ?? null;
+  }
+
+  private async readTabs(file: string, browser: BrowserDefinition): Promise<SessionTab[]> {
+    const stat = await fs.promises.stat(file);
+    const cached = this.cache.get(browser.id);
+    if (cached && cached.file === file && cached.mtimeMs === stat.mtimeMs) {
+      return cached.tabs;
+    }
+
+    const data = await fs.promises.readFile(file);
+    const tabs = browser.family === 'firefox' ? readFirefoxSession(data) : readChromiumSession(data);
+    this.cache.set(browser.id, { file, mtimeMs: stat.mtimeMs, tabs });
+    return tabs;
+  }
+}
+
+// Tab strip, toolbar and bookmarks bar, in physical pixels at 1x
+const ADDRESS_BAR_BAND_PX = 200;
+const URL_TOKEN = /\b((?:https?:\/\/)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}(?::\d{2,5})?(?:\/[^\s]*)?)/i;
+
+/**
+ * Last resort: OCR of the top band of the window where the address bar
+ * lives. Browsers hide the scheme, so https is assumed.
+ */
+export class AddressBarOcrUrlSource implements BrowserUrlSource {
+  public readonly name = 'addressBarOcr';
+  private ocrService: OCRService;
+
+  constructor() {
+    this.ocrService = OCRService.getInstance();
+  }
+
+  public async resolve(capture: ScreenCaptureResult): Promise<string | null> {
+    // Without window bounds the capture is the whole display and its top band is not the browser
+    if (!capture.window?.bounds) {
+      return null;
+    }
+    if (!this.ocrService.isAvailable()) {
+      return null;
+    }
+
+    // PNG IHDR: width and height follow the 8-byte signature and chunk header
+    if (capture.imageData.length < 24) {
+      return null;
+    }
+    const width = capture.imageData.readUInt32BE(16);
+    const height = capture.imageData.readUInt32BE(20);
+    const band = Math.min(height, Math.round(ADDRESS_BAR_BAND_PX * capture.scale));
+
+    const text = await this.ocrService.extractTextFromRegion(capture.imageData, { x: 0, y: 0, width, height: band });
+    return extractUrlFromText(text);
+  }
+}
+
+export function extractUrlFromText(text: string): string | null {
+  for (const token of text.split(/\s+/)) {
+    const match = token.match(URL_TOKEN);
+    if (match && match.index === 0) {
+      const url = match[1].replace(/[.,;:)]+$/, '');
+      return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    }
+  }
+  return null;
+}
+
+// Tab switches and navigations change the window title, so a title-keyed answer stays valid briefly
+const RESOLVED_URL_TTL_MS = 30000;
+
+export class BrowserUrlResolver {
+  private static instance: BrowserUrlResolver;
+  private logger: Logger;
+  private sources: BrowserUrlSource[];
+  private lastResolved: { key: string; result: ResolvedUrl; at: number } | null = null;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.sources = [new SessionFileUrlSource(), new AddressBarOcrUrlSource()];
+  }
+
+  public static getInstance(): BrowserUrlResolver {
+    if (!BrowserUrlResolver.instance) {
+      BrowserUrlResolver.instance = new BrowserUrlResolver();
+    }
+    return BrowserUrlResolver.instance;
+  }
+
+  // Sources are asked in order; more exact sources belong first
+  public addSource(source: BrowserUrlSource, position: 'first' | 'last' = 'last'): void {
+    if (position === 'first') {
+      this.sources.unshift(source);
+    } else {
+      this.sources.push(source);
+    }
+  }
+
+  public async resolve(capture: ScreenCaptureResult): Promise<ResolvedUrl | null> {
+    const browser = identifyBrowser(capture.window?.appName, capture.window?.executable, capture.activeWindow);
+    if (!browser) {
+      return null;
+    }
+
+    const key = `${capture.window?.windowId ?? ''}|${capture.activeWindow}`;
+    if (this.lastResolved && this.lastResolved.key === key && Date.now() - this.lastResolved.at < RESOLVED_URL_TTL_MS) {
+      return this.lastResolved.result;
+    }
+
+    for (const source of this.sources) {
+      try {
+        const url = await source.resolve(capture, browser);
+        if (url) {
+          const result = { url, browser: browser.id, source: source.name };
+          this.lastResolved = { key, result, at: Date.now() };
+          return result;
+        }
+      } catch (error) {
+        this.logger.warn(`Browser URL source ${source.name} failed for ${browser.id}:`, error);
+      }
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { powerMonitor } from 'electron';
+import * as fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+
+export type CaptureMode = 'typing' | 'ai_focused' | 'baseline' | 'idle' | 'paused';
+
+export interface CaptureSchedulerStatus {
+  mode: CaptureMode;
+  intervalMs: number | null; // null while paused
+  reason: string;
+  aiWindowFocused: boolean;
+  idleSeconds: number;
+  locked: boolean;
+  suspended: boolean;
+  onBattery: boolean;
+  batterySaver: boolean;
+}
+
+const MIN_INTERVAL_MS = 2000;
+const TYPING_DIVISOR = 6; // 30s baseline -> 5s while typing into an AI tool
+const AI_FOCUSED_DIVISOR = 2;
+const IDLE_MULTIPLIER = 4;
+const BATTERY_MULTIPLIER = 2;
+const TYPING_IDLE_SECONDS = 3; // Electron reports any input, so recent input in an AI window counts as typing
+const IDLE_THRESHOLD_SECONDS = 60;
+const POLL_INTERVAL_MS = 2000;
+
+// Written by power-profiles-daemon and firmware platform profiles
+const LINUX_PLATFORM_PROFILE = '/sys/firmware/acpi/platform_profile';
+
+/**
+ * Derives the capture interval from the configured `monitoring.interval`
+ * baseline and the current activity and power state. Listeners are told
+ * whenever the mode changes so the capture timer can be rearmed at once.
+ */
+export class CaptureScheduler {
+  private static instance: CaptureScheduler;
+  private logger: Logger;
+  private configService: ConfigService;
+  private listeners: Array<(status: CaptureSchedulerStatus) => void> = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private powerListeners: Array<[string, () => void]> = [];
+  private aiWindowFocused = false;
+  private locked = false;
+  private suspended = false;
+  private lastStatus: CaptureSchedulerStatus | null = null;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+  }
+
+  public static getInstance(): CaptureScheduler {
+    if (!CaptureScheduler.instance) {
+      CaptureScheduler.instance = new CaptureScheduler();
+    }
+    return CaptureScheduler.instance;
+  }
+
+  public start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    const on = (event: string, handler: () => void) => {
+      powerMonitor.on(event as any, handler);
+      this.powerListeners.push([event, handler]);
+    };
+
+    on('lock-screen', () => { this.locked = true; this.evaluate(); });
+    on('unlock-screen', () => { this.locked = false; this.evaluate(); });
+    on('suspend', () => { this.suspended = true; this.evaluate(); });
+    on('resume', () => { this.suspended = false; this.evaluate(); });
+    on('on-battery', () => this.evaluate());
+    on('on-ac', () => this.evaluate());
+
+    // Idle time and power profiles have no change events, so they are polled
+    this.pollTimer = setInterval(() => this.evaluate(), POLL_INTERVAL_MS);
+    this.evaluate();
+    this.logger.info('Capture scheduler started');
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    for (const [event, handler] of this.powerListeners) {
+      powerMonitor.removeListener(event as any, handler);
+    }
+    this.powerListeners = [];
+    this.lastStatus = null;
+    this.aiWindowFocused = false;
+  }
+
+  public onChange(listener: (status: CaptureSchedulerStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  // Called after each capture with whether the focused window is an AI tool
+  public setAIWindowFocused(focused: boolean): void {
+    if (this.aiWindowFocused !== focused) {
+      this.aiWindowFocused = focused;
+      this.evaluate();
+    }
+  }
+
+  public getNextInterval(): number | null {
+    return this.getStatus().intervalMs;
+  }
+
+  public getStatus(): CaptureSchedulerStatus {
+    const baseline = Math.max(MIN_INTERVAL_MS, this.configService.get<number>('monitoring.interval', 30000));
+    const idleSeconds = this.readIdleSeconds();
+    const onBattery = this.readOnBattery();
+    const batterySaver = this.readBatterySaver();
+    const locked = this.locked || this.readLocked();
+
+    const status = (mode: CaptureMode, intervalMs: number | null, reason: string): CaptureSchedulerStatus => ({
+      mode,
+      intervalMs: intervalMs === null ? null : Math.max(MIN_INTERVAL_MS, Math.round(intervalMs)),
+      reason,
+      aiWindowFocused: this.aiWindowFocused,
+      idleSeconds,
+      locked,
+      suspended: this.suspended,
+      onBattery,
+      batterySaver
+    });
+
+    if (this.suspended) {
+      return status('paused', null, 'System is suspended');
+    }
+    if (locked) {
+      return status('paused', null, 'Screen is locked');
+    }
+    if (batterySaver) {
+      return status('paused', null, 'Battery saver is on');
+    }
+
+    const batteryFactor = onBattery ? BATTERY_MULTIPLIER : 1;
+    const onBatteryNote = onBattery ? ', slowed on battery' : '';
+
+    if (idleSeconds >= IDLE_THRESHOLD_SECONDS) {
+      return status('idle', baseline * IDLE_MULTIPLIER * batteryFactor, `No input for ${idleSeconds}s${onBatteryNote}`);
+    }
+    if (this.aiWindowFocused && idleSeconds <= TYPING_IDLE_SECONDS) {
+      return status('typing', (baseline / TYPING_DIVISOR) * batteryFactor, `Typing in an AI window${onBatteryNote}`);
+    }
+    if (this.aiWindowFocused) {
+      return status('ai_focused', (baseline / AI_FOCUSED_DIVISOR) * batteryFactor, `AI window focused${onBatteryNote}`);
+    }
+    return status('baseline', baseline * batteryFactor, `Configured interval${onBatteryNote}`);
+  }
+
+  private evaluate(): void {
+    const status = this.getStatus();
+    const previous = this.lastStatus;
+    this.lastStatus = status;
+
+    if (previous && previous.mode === status.mode && previous.intervalMs === status.intervalMs) {
+      return;
+    }
+
+    this.logger.info(`Capture mode ${status.mode} (${status.intervalMs === null ? 'paused' : `${status.intervalMs}ms`}): ${status.reason}`);
+    for (const listener of this.listeners) {
+      try {
+        listener(status);
+      } catch (error) {
+        this.logger.error('Capture scheduler listener failed:', error);
+      }
+    }
+  }
+
+  private readIdleSeconds(): number {
+    try {
+      return powerMonitor.getSystemIdleTime();
+    } catch {
+      return 0;
+    }
+  }
+
+  // Not every platform emits lock-screen, so the idle state is checked as well
+  private readLocked(): boolean {
+    try {
+      return powerMonitor.getSystemIdleState(IDLE_THRESHOLD_SECONDS) === 'locked';
+    } catch {
+      return false;
+    }
+  }
+
+  private readOnBattery(): boolean {
+    try {
+      return powerMonitor.isOnBatteryPower();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Electron has no battery saver API. On Linux the low-power platform
+   * profile is the same switch the desktop's power mode toggle flips; on
+   * other platforms running on battery only slows sampling down.
+   */
+  private readBatterySaver(): boolean {
+    if (process.platform !== 'linux') {
+      return false;
+    }
+
+    try {
+      return fs.readFileSync(LINUX_PLATFORM_PROFILE, 'utf8').trim() === 'low-power';
+    } catch {
+      return false;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { TextRegion } from './OCRService';
+import { TextBox, TextLine, groupTextLines, unionBoxes } from '../utils/TextLayout';
+
+export type ChatSegmentRole = 'input' | 'user' | 'assistant' | 'chrome';
+
+export interface ChatSegment {
+  role: ChatSegmentRole;
+  text: string;
+  bbox: TextBox;
+  start: number; // Offsets into SegmentedConversation.text
+  end: number;
+}
+
+/**
+ * OCR text of a chat window split by who wrote it. `text` holds every line
+ * in reading order; the other fields are views of it.
+ */
+export interface SegmentedConversation {
+  toolId: string;
+  text: string;
+  segments: ChatSegment[];
+  draft: string; // Unsent text in the input box, empty when only the hint shows
+  userText: string; // Draft and earlier user turns, what the user has shared
+  assistantText: string;
+}
+
+export interface ChatLayoutProfile {
+  sidebar: number; // Share of the window width a docked sidebar takes
+  inputZone: number; // The input box ends below this share of the window height
+  userTurns: 'right-aligned' | 'avatar' | 'heading';
+  placeholders: RegExp[]; // Hint text the empty input box shows
+  chrome: RegExp[]; // Buttons, labels and disclaimers that are nobody's words
+}
+
+const SHARED_CHROME = [
+  /^(copy|copy code|edit|retry|share|regenerate|read aloud|good response|bad response)$/i,
+  /^(today|yesterday|previous \d+ days|\w+ \d{4})$/i,
+  /^(search|new chat|upgrade( plan)?|settings|help|log out)$/i
+];
+
+// Keyed by AI tool catalog id
+export const CHAT_LAYOUT_PROFILES: Record<string, ChatLayoutProfile> = {
+  chatgpt: {
+    sidebar: 0.2,
+    inputZone: 0.8,
+    userTurns: 'right-aligned',
+    placeholders: [/^(ask anything|message chatgpt|what can i help with\??)$/i],
+    chrome: [
+      /^chatgpt( [\d.o]+)?( (plus|pro|team|enterprise))?$/i,
+      /^chatgpt can make mistakes/i,
+      /^(search chats|library|sora|gpts|explore gpts|projects|new project|temporary chat|tools|attach)$/i
+    ]
+  },
+  claude: {
+    sidebar: 0.2,
+    inputZone: 0.8,
+    userTurns: 'avatar',
+    placeholders: [/^(reply to claude\.*|how can i help you today\??|talk with claude|what'?s on your mind\??)$/i],
+    chrome: [
+      /^claude( (sonnet|opus|haiku)( [\d.]+)?)?$/i,
+      /^claude can make mistakes/i,
+      /^(chats|projects|artifacts|starred|recents|new chat|start new chat|free plan|pro plan|max plan)$/i
+    ]
+  },
+  gemini: {
+    sidebar: 0.2,
+    inputZone: 0.8,
+    userTurns: 'right-aligned',
+    placeholders: [/^(ask gemini|enter a prompt here|hello, .+)$/i],
+    chrome: [
+      /^gemini( \d[\w. ]*)?$/i,
+      /^gemini can make mistakes/i,
+      /^(gems|recent|show thinking|deep research|canvas|gem manager|activity)$/i
+    ]
+  },
+  perplexity: {
+    sidebar: 0.12,
+    inputZone: 0.85,
+    userTurns: 'heading',
+    placeholders: [/^(ask anything\.*|ask a follow-up\.*|ask follow-up\.*)$/i],
+    chrome: [
+      /^perplexity( pro)?$/i,
+      /^(answer|sources|related|images|videos|steps|home|discover|spaces|library|rewrite|\d+ sources?)$/i
+    ]
+  }
+};
+
+// Narrower windows overlay or collapse the sidebar instead of docking it
+const MIN_SIDEBAR_WINDOW_WIDTH = 1000;
+const BLOCK_GAP_LINES = 0.9; // Vertical gap, in line heights, that separates two messages
+const RIGHT_ALIGNED_SHARE = 0.25;
+const HEADING_SCALE = 1.25;
+
+interface LineInfo {
+  line: TextLine;
+  role: ChatSegmentRole | null;
+}
+
+/**
+ * Splits OCR words from a chat window into the input box, user turns and
+ * assistant turns using the platform's layout. `frame` is the captured
+ * image size; without it the extent of the words stands in. Returns null
+ * for tools without a layout profile, whose text stays unsegmented.
+ */
+export function segmentChatText(
+  regions: TextRegion[],
+  toolId: string | null | undefined,
+  frame?: { width: number; height: number } | null
+): SegmentedConversation | null {
+  const profile = toolId ? CHAT_LAYOUT_PROFILES[toolId] : undefined;
+  if (!profile || regions.length === 0) {
+    return null;
+  }
+
+  const bounds: TextBox = frame
+    ? { x: 0, y: 0, width: frame.width, height: frame.height }
+    : unionBoxes(regions.map(region => region.bbox));
+
+  // Sidebar titles sit level with conversation lines, so they are split off before lines are formed
+  const sidebarEdge = bounds.width >= MIN_SIDEBAR_WINDOW_WIDTH ? bounds.x + bounds.width * profile.sidebar : -Infinity;
+  const inSidebar = (region: TextRegion) => region.bbox.x + region.bbox.width <= sidebarEdge;
+  const infos: LineInfo[] = [
+    ...groupTextLines(regions.filter(inSidebar)).map(line => ({ line, role: 'chrome' as ChatSegmentRole })),
+    ...groupTextLines(regions.filter(region => !inSidebar(region)))
+      .map(line => ({ line, role: isChrome(line, profile) ? 'chrome' as ChatSegmentRole : null }))
+  ];
+
+  const blocks = splitBlocks(infos.filter(info => info.role === null));
+  const inputBlock = findInputBlock(blocks, profile, bounds);
+  for (const info of inputBlock || []) {
+    // The hint disappears once the user types, so it is never part of a draft
+    info.role = profile.placeholders.some(pattern => pattern.test(info.line.text)) ? 'chrome' : 'input';
+  }
+
+  const turns = blocks.filter(block => block !== inputBlock);
+  const userBlocks = findUserBlocks(turns, profile);
+  for (const block of turns) {
+    const role: ChatSegmentRole = userBlocks.has(block) ? 'user' : 'assistant';
+    for (const info of block) info.role = role;
+  }
+
+  return buildConversation(toolId!, infos, profile.userTurns === 'avatar');
+}
+
+function isChrome(line: TextLine, profile: ChatLayoutProfile): boolean {
+  const text = line.text.trim();
+  return [...SHARED_CHROME, ...profile.chrome].some(pattern => pattern.test(text));
+}
+
+function splitBlocks(infos: LineInfo[]): LineInfo[][] {
+  if (infos.length === 0) {
+    return [];
+  }
+
+  const lineHeight = median(infos.map(info => info.line.bbox.height));
+  const blocks: LineInfo[][] = [[infos[0]]];
+  for (let index = 1; index < infos.length; index++) {
+    const previous = infos[index - 1].line.bbox;
+    const gap = infos[index].line.bbox.y - (previous.y + previous.height);
+    if (gap > lineHeight * BLOCK_GAP_LINES) {
+      blocks.push([]);
+    }
+    blocks[blocks.length - 1].push(infos[index]);
+  }
+  return blocks;
+}
+
+/**
+ * The input box is the last block when it reaches the bottom of the window.
+ * A new chat centres it instead, and then only its hint text gives it away.
+ */
+function findInputBlock(blocks: LineInfo[][], profile: ChatLayoutProfile, bounds: TextBox): LineInfo[] | null {
+  const last = blocks[blocks.length - 1];
+  if (last) {
+    const box = blockBox(last);
+    if (box.y + box.height >= bounds.y + bounds.height * profile.inputZone) {
+      return last;
+    }
+  }
+  return blocks.find(block => block.some(info => profile.placeholders.some(pattern => pattern.test(info.line.text)))) || null;
+}
+
+function findUserBlocks(blocks: LineInfo[][], profile: ChatLayoutProfile): Set<LineInfo[]> {
+  const users = new Set<LineInfo[]>();
+  if (blocks.length === 0) {
+    return users;
+  }
+
+  const column = unionBoxes(blocks.map(blockBox));
+  const lineHeight = median(blocks.flat().map(info => info.line.bbox.height));
+
+  for (const block of blocks) {
+    const box = blockBox(block);
+    switch (profile.userTurns) {
+      case 'right-aligned':
+        // User bubbles hug the right edge, replies start at the column's left edge
+        if (box.x > column.x + column.width * RIGHT_ALIGNED_SHARE) users.add(block);
+        break;
+      case 'avatar':
+        // User turns open with the account initials in a circle left of the text
+        if (startsWithAvatar(block[0].line)) users.add(block);
+        break;
+      case 'heading':
+        // Each answer sits under the question, set in a larger type
+        if (median(block.map(info => info.line.bbox.height)) >= lineHeight * HEADING_SCALE) users.add(block);
+        break;
+    }
+  }
+
+  return users;
+}
+
+function buildConversation(toolId: string, infos: LineInfo[], stripAvatars: boolean): SegmentedConversation {
+  const segments: ChatSegment[] = [];
+  let text = '';
+
+  for (const { line, role } of infos as Array<{ line: TextLine; role: ChatSegmentRole }>) {
+    // OCR reads the avatar initials as a word; they are not part of the message
+    const lineText = stripAvatars && role === 'user' && startsWithAvatar(line)
+      ? line.words.slice(1).map(word => word.text).join(' ')
+      : line.text;
+    const start = text.length + (text ? 1 : 0);
+    text += (text ? '\n' : '') + lineText;
+
+    const current = segments[segments.length - 1];
+    if (current && current.role === role) {
+      current.text += `\n${lineText}`;
+      current.end = text.length;
+      current.bbox = unionBoxes([current.bbox, line.bbox]);
+    } else {
+      segments.push({ role, text: lineText, bbox: line.bbox, start, end: text.length });
+    }
+  }
+
+  const join = (roles: ChatSegmentRole[]) =>
+    segments.filter(segment => roles.includes(segment.role)).map(segment => segment.text).join('\n');
+
+  return {
+    toolId,
+    text,
+    segments,
+    draft: join(['input']),
+    userText: join(['user', 'input']),
+    assistantText: join(['assistant'])
+  };
+}
+
+// One or two capitals set apart from the words after them
+function startsWithAvatar(line: TextLine): boolean {
+  const [first, second] = line.words;
+  return !!second && /^[A-Z]{1,2}$/.test(first.text) &&
+    second.bbox.x - (first.bbox.x + first.bbox.width) > first.bbox.height;
+}
+
+function blockBox(block: LineInfo[]): TextBox {
+  return unionBoxes(block.map(info => info.line.bbox));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+}
\ No newline at end of file
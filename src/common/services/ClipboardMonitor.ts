@@ -0,0 +1,197 @@
+import { clipboard } from 'electron';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { OCRService } from './OCRService';
+import { SensitiveDataRegistry } from './SensitiveDataRegistry';
+import { FindingSeverity, SEVERITY_RANK } from './SensitiveDataDetectors';
+
+/**
+ * What was found in the clipboard, never the clipboard itself: the content
+ * hash only tells two copies apart and cannot be reversed.
+ */
+export interface ClipboardRisk {
+  kind: 'text' | 'image';
+  detectedAt: number;
+  contentHash: string;
+  length: number; // Characters of text, or of OCR text for images
+  findingCount: number;
+  types: string[];
+  maxSeverity: FindingSeverity;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const RISK_TTL_MS = 5 * 60 * 1000; // A paste long after the copy is unlikely to be this copy
+const MAX_TEXT_LENGTH = 1024 * 1024;
+const MAX_IMAGE_PIXELS = 4 * 1024 * 1024;
+const MIN_CONFIDENCE = 0.5;
+const BULK_FINDINGS = 3;
+
+export class ClipboardMonitor {
+  private static instance: ClipboardMonitor;
+  private logger: Logger;
+  private configService: ConfigService;
+  private detectorRegistry: SensitiveDataRegistry;
+  private ocrService: OCRService;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private lastSignature: string | null = null;
+  private scanning = false;
+  private risk: ClipboardRisk | null = null;
+  private warnedPlatforms = new Set<string>(); // Platforms already warned about the current risk
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.detectorRegistry = SensitiveDataRegistry.getInstance();
+    this.ocrService = OCRService.getInstance();
+  }
+
+  public static getInstance(): ClipboardMonitor {
+    if (!ClipboardMonitor.instance) {
+      ClipboardMonitor.instance = new ClipboardMonitor();
+    }
+    return ClipboardMonitor.instance;
+  }
+
+  public start(): void {
+    if (this.pollTimer || !this.configService.get<boolean>('monitoring.clipboard', true)) {
+      return;
+    }
+
+    // Whatever is already on the clipboard was copied before monitoring began
+    this.lastSignature = this.readSignature();
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.logger.info('Clipboard monitor started');
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Clipboard monitor stopped');
+    }
+    this.lastSignature = null;
+    this.clearRisk();
+  }
+
+  public getRisk(): ClipboardRisk | null {
+    if (this.risk && Date.now() - this.risk.detectedAt > RISK_TTL_MS) {
+      this.clearRisk();
+    }
+    return this.risk;
+  }
+
+  /**
+   * Returns the risky clipboard once per AI platform, so focusing the same
+   * tool again does not repeat the warning for the same copy.
+   */
+  public takeRiskForPlatform(platform: string): ClipboardRisk | null {
+    const risk = this.getRisk();
+    if (!risk || this.warnedPlatforms.has(platform)) {
+      return null;
+    }
+    this.warnedPlatforms.add(platform);
+    return risk;
+  }
+
+  private clearRisk(): void {
+    this.risk = null;
+    this.warnedPlatforms.clear();
+  }
+
+  // Cheap fingerprint of what is on the clipboard, so unchanged content is not rescanned
+  private readSignature(): string {
+    const formats = clipboard.availableFormats();
+    if (formats.some(format => format.startsWith('image/'))) {
+      const image = clipboard.readImage();
+      if (!image.isEmpty()) {
+        const size = image.getSize();
+        const thumbnail = image.resize({ width: 32, height: 32 }).toBitmap();
+        return `image:${size.width}x${size.height}:${this.hash(thumbnail)}`;
+      }
+    }
+    return `text:${this.hash(clipboard.readText())}`;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.scanning) {
+      return;
+    }
+
+    try {
+      const signature = this.readSignature();
+      if (signature === this.lastSignature) {
+        return;
+      }
+      this.lastSignature = signature;
+
+      this.scanning = true;
+      const risk = signature.startsWith('image:') ? await this.scanImage() : this.scanText();
+
+      // A new copy replaces the old risk, including with nothing risky
+      this.clearRisk();
+      if (risk) {
+        this.risk = risk;
+        this.logger.info(`Sensitive clipboard ${risk.kind}: ${risk.findingCount} finding(s) of ${risk.types.join(', ')}`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to scan clipboard:', error);
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  private scanText(): ClipboardRisk | null {
+    const text = clipboard.readText();
+    if (!text.trim() || text.length > MAX_TEXT_LENGTH) {
+      return null;
+    }
+    return this.summarize('text', text);
+  }
+
+  private async scanImage(): Promise<ClipboardRisk | null> {
+    const image = clipboard.readImage();
+    const size = image.getSize();
+    if (image.isEmpty() || size.width * size.height > MAX_IMAGE_PIXELS || !this.ocrService.isAvailable()) {
+      return null;
+    }
+
+    // Screenshots of terminals and spreadsheets leak as easily as text
+    const text = await this.ocrService.extractTextFromRegion(image.toPNG(), {
+      x: 0,
+      y: 0,
+      width: size.width,
+      height: size.height
+    });
+    return text.trim() ? this.summarize('image', text) : null;
+  }
+
+  private summarize(kind: 'text' | 'image', text: string): ClipboardRisk | null {
+    const findings = this.detectorRegistry.scan(text).filter(finding => finding.confidence >= MIN_CONFIDENCE);
+    const maxSeverity = findings.reduce<FindingSeverity>(
+      (max, finding) => SEVERITY_RANK[finding.severity] > SEVERITY_RANK[max] ? finding.severity : max,
+      'low'
+    );
+
+    // A single email address is routine; secrets or many records (a customer export) are not
+    const risky = SEVERITY_RANK[maxSeverity] >= SEVERITY_RANK.high ||
+      (SEVERITY_RANK[maxSeverity] >= SEVERITY_RANK.medium && findings.length >= BULK_FINDINGS);
+    if (!risky) {
+      return null;
+    }
+
+    return {
+      kind,
+      detectedAt: Date.now(),
+      contentHash: this.hash(text),
+      length: text.length,
+      findingCount: findings.length,
+      types: Array.from(new Set(findings.map(finding => finding.type))),
+      maxSeverity
+    };
+  }
+
+  private hash(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
 import Store from 'electron-store';
 import { Logger } from '../utils/Logger';
+import { CustomDetectorDefinition } from './SensitiveDataRegistry';
+import { AIToolOverride } from './AIToolCatalog';
 
 interface ConfigSchema {
   monitoring: {
@@ -7,6 +9,9 @@ interface ConfigSchema {
     interval: number;
     enableScreenCapture: boolean;
     enableNetworkMonitoring: boolean;
+    changeDetection: boolean;
+    clipboard: boolean;
+    terminalProcesses: boolean;
   };
   ui: {
     theme: 'light' | 'dark' | 'system';
@@ -22,12 +27,43 @@ interface ConfigSchema {
     organizationId: string | null;
     apiEndpoint: string | null;
     syncInterval: number;
+    userEmail: string | null;
+    userRole: string | null;
   };
   alerts: {
     costThreshold: number;
     piiDetection: boolean;
     unusualUsage: boolean;
   };
+  ocr: {
+    languages: string[];
+    langPath: string | null;
+    workerCount: number;
+    minWordConfidence: number;
+  };
+  detectors: {
+    disabled: string[];
+    custom: CustomDetectorDefinition[];
+  };
+  policies: {
+    remote: any[];
+  };
+  catalog: {
+    custom: AIToolOverride[];
+    remote: AIToolOverride[];
+  };
+  extension: {
+    enabled: boolean;
+    chromiumExtensionIds: string[];
+    firefoxExtensionIds: string[];
+  };
+  redaction: {
+    vaultTtlMinutes: number;
+  };
+  ner: {
+    useModel: boolean;
+    modelPath: string | null;
+  };
 }
 
 export class ConfigService {
@@ -44,7 +80,10 @@ export class ConfigService {
           autoStart: true,
           interval: 30000, // 30 seconds
           enableScreenCapture: true,
-          enableNetworkMonitoring: true
+          enableNetworkMonitoring: true,
+          changeDetection: true, // Skip OCR when the focused window has not changed
+          clipboard: true, // Scan copied text and images; only finding summaries are kept
+          terminalProcesses: true // Detect AI CLIs running in terminals (Linux /proc)
         },
         ui: {
           theme: 'system',
@@ -59,12 +98,43 @@ export class ConfigService {
         enterprise: {
           organizationId: null,
           apiEndpoint: null,
-          syncInterval: 300000 // 5 minutes
+          syncInterval: 300000, // 5 minutes
+          userEmail: null,
+          userRole: null // Used to scope role-specific policy rules
         },
         alerts: {
           costThreshold: 10.0,
           piiDetection: true,
           unusualUsage: true
+        },
+        ocr: {
+          languages: ['eng'],
+          langPath: null, // Falls back to the bundled assets/tessdata directory
+          workerCount: 2,
+          minWordConfidence: 0.6
+        },
+        detectors: {
+          disabled: [],
+          custom: []
+        },
+        policies: {
+          remote: [] // Last policy set pushed by the dashboard
+        },
+        catalog: {
+          custom: [], // Local AI tool additions and edits, e.g. an internal LLM gateway
+          remote: [] // Last AI tool overrides pushed by the dashboard
+        },
+        extension: {
+          enabled: true,
+          chromiumExtensionIds: [], // Native host manifests are only installed for listed extensions
+          firefoxExtensionIds: []
+        },
+        redaction: {
+          vaultTtlMinutes: 480 // Placeholder mappings and their key are wiped this long after the first redaction
+        },
+        ner: {
+          useModel: true, // Rules still run when no model is installed
+          modelPath: null // Falls back to the bundled assets/ner directory
         }
       }
     });
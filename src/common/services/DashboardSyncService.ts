@@ -1,4 +1,40 @@
+import { BrowserWindow } from 'electron';
 import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { SecureStoreService } from './SecureStoreService';
+import { PolicyEngine } from './PolicyEngine';
+import { AIToolRegistry } from './AIToolRegistry';
+import { AIToolOverride } from './AIToolCatalog';
+import { SyncOutbox, OutboxItem } from './SyncOutbox';
+
+// Secure store entry holding the dashboard API key
+const DASHBOARD_KEY_SERVICE = 'dashboard';
+
+// Batching limits keep a week of offline backlog from becoming one huge request
+const MAX_EVENTS_PER_BATCH = 200;
+const MAX_ALERTS_PER_BATCH = 50;
+const MAX_BATCHES_PER_SYNC = 20;
+
+// A dashboard that stops answering must not hold the sync open until the OS gives up
+const SYNC_TIMEOUT_MS = 30000;
+const TEST_CONNECTION_TIMEOUT_MS = 10000;
+
+// 4xx answers about credentials, timeouts or rate limits say nothing about the items sent
+const TRANSIENT_CLIENT_ERRORS = [401, 403, 408, 429];
+
+export class DashboardSyncError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DashboardSyncError';
+    this.status = status;
+  }
+
+  public get rejected(): boolean {
+    return this.status >= 400 && this.status < 500 && !TRANSIENT_CLIENT_ERRORS.includes(this.status);
+  }
+}
 
 export interface UsageEvent {
   id: string;
@@ -30,6 +66,7 @@ export interface SecurityAlert {
   aiTool: string;
   content: string;
   actionTaken: string;
+  credentialProviders?: string[];
   resolved: boolean;
 }
 
@@ -48,23 +85,33 @@ export interface UserAnalytics {
 }
 
 export interface EnterpriseSettings {
-  enabled: boolean;
   dashboardUrl: string;
   organizationId: string;
   apiKey: string;
 }
 
+interface UserProfile {
+  email: string | null;
+  role: string | null;
+}
+
 export class DashboardSyncService {
   private static instance: DashboardSyncService;
   private logger: Logger;
-  private syncQueue: UsageEvent[] = [];
-  private alertQueue: SecurityAlert[] = [];
+  private configService: ConfigService;
+  private secureStore: SecureStoreService;
+  private outbox: SyncOutbox;
   private syncInterval: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private syncInProgress: Promise<void> | null = null;
   private lastSyncTime = 0;
+  private unsubscribeConfig: (() => void) | null = null;
 
   private constructor() {
     this.logger = Logger.getInstance();
-    this.startSyncScheduler();
+    this.configService = ConfigService.getInstance();
+    this.secureStore = SecureStoreService.getInstance();
+    this.outbox = SyncOutbox.getInstance();
   }
 
   public static getInstance(): DashboardSyncService {
@@ -74,17 +121,33 @@ export class DashboardSyncService {
     return DashboardSyncService.instance;
   }
 
+  // Called once the database is ready; flushes anything left over from a previous run
+  public start(): void {
+    this.startSyncScheduler();
+    this.performSync();
+
+    if (!this.unsubscribeConfig) {
+      this.unsubscribeConfig = this.configService.onDidChange('enterprise', () => {
+        this.startSyncScheduler();
+        this.performSync();
+      });
+    }
+  }
+
   private getEnterpriseSettings(): EnterpriseSettings | null {
     try {
-      const settings = localStorage.getItem('damEnterpriseSettings');
-      if (!settings) return null;
-      
-      const enterpriseSettings = JSON.parse(settings) as EnterpriseSettings;
-      if (!enterpriseSettings.enabled || !enterpriseSettings.dashboardUrl || !enterpriseSettings.apiKey) {
-        return null;
-      }
-      
-      return enterpriseSettings;
+      const organizationId = this.configService.get<string | null>('enterprise.organizationId', null);
+      const apiEndpoint = this.configService.get<string | null>('enterprise.apiEndpoint', null);
+      if (!organizationId || !apiEndpoint) return null;
+
+      const apiKey = this.secureStore.getAPIKey(DASHBOARD_KEY_SERVICE);
+      if (!apiKey) return null;
+
+      return {
+        dashboardUrl: apiEndpoint.replace(/\/+$/, ''),
+        organizationId,
+        apiKey
+      };
     } catch (error) {
       this.logger.error('Failed to load enterprise settings:', error);
       return null;
@@ -101,13 +164,18 @@ export class DashboardSyncService {
       ...event
     };
 
-    this.syncQueue.push(fullEvent);
-    this.logger.info('Usage event queued for sync:', fullEvent.id);
+    const urgent = fullEvent.riskLevel === 'high' || fullEvent.sensitiveDataDetected || fullEvent.apiKeyExposed;
 
-    // Immediate sync for high-risk events
-    if (fullEvent.riskLevel === 'high' || fullEvent.sensitiveDataDetected || fullEvent.apiKeyExposed) {
-      this.syncImmediately();
-    }
+    this.outbox.enqueue('usage_event', fullEvent.id, fullEvent)
+      .then(() => {
+        this.logger.info('Usage event queued for sync:', fullEvent.id);
+
+        // Immediate sync for high-risk events
+        if (urgent) {
+          this.syncImmediately();
+        }
+      })
+      .catch(error => this.logger.error('Failed to queue usage event:', error));
   }
 
   public recordSecurityAlert(alert: Omit<SecurityAlert, 'id' | 'timestamp'>): void {
@@ -120,111 +188,194 @@ export class DashboardSyncService {
       ...alert
     };
 
-    this.alertQueue.push(fullAlert);
-    this.logger.warn('Security alert queued for sync:', fullAlert.id);
+    this.outbox.enqueue('security_alert', fullAlert.id, fullAlert)
+      .then(() => {
+        this.logger.warn('Security alert queued for sync:', fullAlert.id);
 
-    // Immediate sync for critical alerts
-    if (fullAlert.severity === 'critical' || fullAlert.severity === 'high') {
-      this.syncImmediately();
-    }
+        // Immediate sync for critical alerts
+        if (fullAlert.severity === 'critical' || fullAlert.severity === 'high') {
+          this.syncImmediately();
+        }
+      })
+      .catch(error => this.logger.error('Failed to queue security alert:', error));
   }
 
   private async syncImmediately(): Promise<void> {
-    if (this.syncQueue.length === 0 && this.alertQueue.length === 0) return;
-
     await this.performSync();
   }
 
   private startSyncScheduler(): void {
-    // Sync every 5 minutes
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+    }
+
+    const interval = Math.max(30000, this.configService.get<number>('enterprise.syncInterval', 300000));
     this.syncInterval = setInterval(() => {
       this.performSync();
-    }, 5 * 60 * 1000);
+    }, interval);
   }
 
   private async performSync(): Promise<void> {
+    // One sync at a time, otherwise the same outbox rows would be sent twice
+    if (!this.syncInProgress) {
+      this.syncInProgress = this.drainOutbox().finally(() => {
+        this.syncInProgress = null;
+      });
+    }
+    return this.syncInProgress;
+  }
+
+  private async drainOutbox(): Promise<void> {
     const settings = this.getEnterpriseSettings();
     if (!settings) return;
 
-    if (this.syncQueue.length === 0 && this.alertQueue.length === 0) return;
-
+    // Every response carries the whole catalog, so only the last one of a sync is applied
+    let toolCatalog: AIToolOverride[] | null = null;
     try {
-      const userProfile = this.getUserProfile();
-      
-      const syncData = {
-        organizationId: settings.organizationId,
-        userId: userProfile?.email || 'unknown',
-        usageEvents: [...this.syncQueue],
-        securityAlerts: [...this.alertQueue],
-        userAnalytics: this.generateUserAnalytics(),
-        lastSyncTime: this.lastSyncTime,
-        clientVersion: '1.0.0',
-        deviceInfo: {
-          platform: process.platform,
-          arch: process.arch,
-          nodeVersion: process.version
+      for (let batch = 0; batch < MAX_BATCHES_PER_SYNC; batch++) {
+        let alerts: OutboxItem<SecurityAlert>[] = [];
+        let events: OutboxItem<UsageEvent>[] = [];
+
+        try {
+          // Alerts go first so they are never starved by a usage backlog
+          alerts = await this.outbox.takeDue('security_alert', MAX_ALERTS_PER_BATCH);
+          events = await this.outbox.takeDue('usage_event', MAX_EVENTS_PER_BATCH);
+        } catch (error) {
+          this.logger.error('Failed to read sync outbox:', error);
+          return;
         }
-      };
-
-      const response = await fetch(`${settings.dashboardUrl}/api/desktop-sync`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${settings.apiKey}`,
-          'X-Dam-Client': 'desktop',
-          'X-Dam-Version': '1.0.0'
-        },
-        body: JSON.stringify(syncData)
-      });
 
-      if (response.ok) {
-        const result = await response.json();
-        this.logger.info(`Sync successful: ${this.syncQueue.length} events, ${this.alertQueue.length} alerts`);
-        
-        // Clear synced items
-        this.syncQueue = [];
-        this.alertQueue = [];
-        this.lastSyncTime = Date.now();
-
-        // Process any policies or updates from dashboard
-        if (result.policies) {
-          this.processPolicyUpdates(result.policies);
+        if (alerts.length === 0 && events.length === 0) return;
+
+        try {
+          const catalog = await this.sendBatch(settings, events, alerts);
+          if (catalog) {
+            toolCatalog = catalog;
+          }
+        } catch (error) {
+          this.logger.error('Dashboard sync failed:', error);
+          await this.scheduleRetry(
+            [...alerts, ...events],
+            error instanceof Error ? error.message : String(error),
+            error instanceof DashboardSyncError && error.rejected
+          );
+          return;
         }
-      } else {
-        throw new Error(`Sync failed with status: ${response.status}`);
       }
-    } catch (error) {
-      this.logger.error('Dashboard sync failed:', error);
-      
-      // Limit queue size to prevent memory issues
-      if (this.syncQueue.length > 1000) {
-        this.syncQueue = this.syncQueue.slice(-500);
+
+      // More backlog than one sync may send; continue shortly without blocking callers
+      this.scheduleNextDrain(1000);
+    } finally {
+      if (toolCatalog) {
+        AIToolRegistry.getInstance().applyDashboardOverrides(toolCatalog);
       }
-      if (this.alertQueue.length > 100) {
-        this.alertQueue = this.alertQueue.slice(-50);
+    }
+  }
+
+  private async sendBatch(
+    settings: EnterpriseSettings,
+    events: OutboxItem<UsageEvent>[],
+    alerts: OutboxItem<SecurityAlert>[]
+  ): Promise<AIToolOverride[] | null> {
+    const userProfile = this.getUserProfile();
+
+    // Item ids are idempotency keys: a batch retried after a lost response is deduplicated by the dashboard
+    const syncData = {
+      organizationId: settings.organizationId,
+      userId: userProfile.email || 'unknown',
+      usageEvents: events.map(item => item.payload),
+      securityAlerts: alerts.map(item => item.payload),
+      userAnalytics: this.generateUserAnalytics(),
+      lastSyncTime: this.lastSyncTime,
+      clientVersion: '1.0.0',
+      deviceInfo: {
+        platform: process.platform,
+        arch: process.arch,
+        nodeVersion: process.version
       }
+    };
+
+    const response = await fetch(`${settings.dashboardUrl}/api/desktop-sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${settings.apiKey}`,
+        'X-Dam-Client': 'desktop',
+        'X-Dam-Version': '1.0.0'
+      },
+      body: JSON.stringify(syncData),
+      signal: AbortSignal.timeout(SYNC_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new DashboardSyncError(`Sync failed with status: ${response.status}`, response.status);
+    }
+
+    // Delivered once the dashboard accepted it, whatever the body holds
+    await this.outbox.acknowledge([...alerts, ...events].map(item => item.id));
+    this.lastSyncTime = Date.now();
+    this.logger.info(`Sync successful: ${events.length} events, ${alerts.length} alerts`);
+
+    const result = await this.readSyncResponse(response);
+    if (!result) {
+      return null;
     }
+
+    // Process any policies or updates from dashboard
+    if (result.policies) {
+      this.processPolicyUpdates(result.policies);
+    }
+    return Array.isArray(result.aiToolCatalog) ? result.aiToolCatalog : null;
   }
 
-  private getUserProfile(): any {
+  // A 204 or an empty body simply carries no updates
+  private async readSyncResponse(response: Response): Promise<any | null> {
     try {
-      const profile = localStorage.getItem('damUserProfile');
-      return profile ? JSON.parse(profile) : null;
-    } catch {
+      const body = await response.text();
+      return body.trim() ? JSON.parse(body) : null;
+    } catch (error) {
+      this.logger.warn('Ignoring unreadable dashboard sync response:', error);
       return null;
     }
   }
 
+  private async scheduleRetry(items: OutboxItem[], error: string, rejected: boolean): Promise<void> {
+    try {
+      const nextAttemptAt = await this.outbox.reschedule(items, error, rejected);
+      this.scheduleNextDrain(nextAttemptAt - Date.now());
+      this.logger.info(`Dashboard sync will retry at ${new Date(nextAttemptAt).toISOString()}`);
+    } catch (rescheduleError) {
+      this.logger.error('Failed to reschedule sync outbox items:', rescheduleError);
+    }
+  }
+
+  private scheduleNextDrain(delayMs: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.performSync();
+    }, Math.max(0, delayMs));
+  }
+
+  private getUserProfile(): UserProfile {
+    return {
+      email: this.configService.get<string | null>('enterprise.userEmail', null),
+      role: this.configService.get<string | null>('enterprise.userRole', null)
+    };
+  }
+
   private generateUserAnalytics(): UserAnalytics | null {
     const userProfile = this.getUserProfile();
-    if (!userProfile) return null;
+    if (!userProfile.email) return null;
 
     // This would be enhanced with actual analytics from the monitoring service
     return {
       userId: userProfile.email || 'unknown',
       userEmail: userProfile.email || 'unknown',
       userRole: userProfile.role || 'unknown',
-      totalPrompts: userProfile.xp || 0,
+      totalPrompts: 0, // Would be tracked from actual usage
       totalTokens: 0, // Would be tracked from actual usage
       favoriteAITool: 'ChatGPT', // Would be calculated from usage patterns
       riskScore: 75, // Would be calculated from security events
@@ -238,11 +389,13 @@ export class DashboardSyncService {
   private processPolicyUpdates(policies: any[]): void {
     this.logger.info('Processing policy updates from dashboard:', policies.length);
     
-    // Store policies for the monitoring service to use
-    localStorage.setItem('damEnterprisePolicies', JSON.stringify(policies));
+    // The policy engine validates and persists the rules for monitoring to enforce
+    PolicyEngine.getInstance().applyDashboardPolicies(policies);
     
-    // Notify other services about policy updates
-    window.dispatchEvent(new CustomEvent('dam:policiesUpdated', { detail: policies }));
+    // Notify renderer processes about policy updates
+    BrowserWindow.getAllWindows().forEach(window => {
+      window.webContents.send('policies:updated', policies);
+    });
   }
 
   private generateId(): string {
@@ -263,7 +416,8 @@ export class DashboardSyncService {
         body: JSON.stringify({
           organizationId: settings.organizationId,
           clientType: 'desktop'
-        })
+        }),
+        signal: AbortSignal.timeout(TEST_CONNECTION_TIMEOUT_MS)
       });
 
       return response.ok;
@@ -273,11 +427,14 @@ export class DashboardSyncService {
     }
   }
 
-  public getQueueStatus(): { events: number; alerts: number; lastSync: number } {
+  public async getQueueStatus(): Promise<{ events: number; alerts: number; failed: number; lastSync: number; nextAttempt: number | null }> {
+    const status = await this.outbox.getStatus();
     return {
-      events: this.syncQueue.length,
-      alerts: this.alertQueue.length,
-      lastSync: this.lastSyncTime
+      events: status.pending.usage_event,
+      alerts: status.pending.security_alert,
+      failed: status.failed.usage_event + status.failed.security_alert,
+      lastSync: this.lastSyncTime,
+      nextAttempt: status.nextAttemptAt
     };
   }
 
@@ -286,5 +443,13 @@ export class DashboardSyncService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.unsubscribeConfig) {
+      this.unsubscribeConfig();
+      this.unsubscribeConfig = null;
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+// The user this install records activity for until an enterprise email is configured
+export const LOCAL_USER_ID = 1;
+
+// Forward-only: never edit or reorder a released migration, append a new one instead
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    // IF NOT EXISTS lets installs created before versioning adopt this baseline
+    statements: [
+      `CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        organization_id INTEGER,
+        role TEXT DEFAULT 'user',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS organizations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        domain TEXT UNIQUE,
+        settings TEXT DEFAULT '{}',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        ai_tool TEXT NOT NULL,
+        usage_type TEXT NOT NULL,
+        content_hash TEXT,
+        tokens_used INTEGER DEFAULT 0,
+        cost_estimate REAL DEFAULT 0,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        metadata TEXT DEFAULT '{}',
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS monitoring_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        start_time DATETIME NOT NULL,
+        end_time DATETIME,
+        total_usage INTEGER DEFAULT 0,
+        total_cost REAL DEFAULT 0,
+        metadata TEXT DEFAULT '{}',
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        organization_id INTEGER,
+        type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        message TEXT NOT NULL,
+        data TEXT DEFAULT '{}',
+        resolved BOOLEAN DEFAULT FALSE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users (id),
+        FOREIGN KEY (organization_id) REFERENCES organizations (id)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS policies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        rules TEXT NOT NULL,
+        active BOOLEAN DEFAULT TRUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (organization_id) REFERENCES organizations (id)
+      )`,
+
+      'CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_ai_usage_timestamp ON ai_usage(timestamp)',
+      'CREATE INDEX IF NOT EXISTS idx_ai_usage_ai_tool ON ai_usage(ai_tool)',
+      'CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_alerts_organization_id ON alerts(organization_id)',
+      'CREATE INDEX IF NOT EXISTS idx_monitoring_sessions_user_id ON monitoring_sessions(user_id)'
+    ]
+  },
+  {
+    version: 2,
+    name: 'analysis_history',
+    statements: [
+      `CREATE TABLE analyses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        session_id INTEGER,
+        ai_tool TEXT,
+        risk_level TEXT NOT NULL,
+        prompt_quality TEXT NOT NULL,
+        sensitive_data_detected BOOLEAN DEFAULT FALSE,
+        content_hash TEXT,
+        ocr_confidence REAL,
+        suggestions TEXT DEFAULT '[]',
+        learning_opportunity TEXT,
+        analyzed_at INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id),
+        FOREIGN KEY (session_id) REFERENCES monitoring_sessions (id)
+      )`,
+
+      // One row per detected data type; matched values are never stored
+      `CREATE TABLE analysis_findings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        analysis_id INTEGER NOT NULL,
+        data_type TEXT NOT NULL,
+        category TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        occurrences INTEGER NOT NULL DEFAULT 1,
+        max_confidence REAL NOT NULL,
+        providers TEXT DEFAULT '[]',
+        FOREIGN KEY (analysis_id) REFERENCES analyses (id) ON DELETE CASCADE
+      )`,
+
+      'CREATE INDEX idx_analyses_analyzed_at ON analyses(analyzed_at)',
+      'CREATE INDEX idx_analyses_ai_tool ON analyses(ai_tool)',
+      'CREATE INDEX idx_analyses_risk_level ON analyses(risk_level)',
+      'CREATE INDEX idx_analysis_findings_analysis_id ON analysis_findings(analysis_id)',
+      'CREATE INDEX idx_analysis_findings_data_type ON analysis_findings(data_type)'
+    ]
+  },
+  {
+    version: 3,
+    name: 'sync_outbox',
+    statements: [
+      // id is the idempotency key the dashboard uses to drop redelivered items
+      `CREATE TABLE sync_outbox (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT
+      )`,
+
+      'CREATE INDEX idx_sync_outbox_due ON sync_outbox(kind, next_attempt_at, created_at)'
+    ]
+  },
+  {
+    version: 4,
+    name: 'terminal_ai_sessions',
+    statements: [
+      // id is the detector's "<pid>:<start ticks>" key; command is stored redacted
+      `CREATE TABLE terminal_ai_sessions (
+        id TEXT PRIMARY KEY,
+        tool TEXT NOT NULL,
+        command TEXT NOT NULL,
+        pid INTEGER NOT NULL,
+        terminal_app TEXT NOT NULL,
+        terminal_pid INTEGER NOT NULL,
+        window_title TEXT,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER
+      )`,
+
+      'CREATE INDEX idx_terminal_ai_sessions_started_at ON terminal_ai_sessions(started_at)'
+    ]
+  },
+  {
+    version: 5,
+    name: 'local_user',
+    statements: [
+      // Activity has always been recorded as user 1; foreign keys are enforced now, so the row must exist
+      `INSERT OR IGNORE INTO users (id, email, name) VALUES (${LOCAL_USER_ID}, 'local@localhost', 'Local user')`
+    ]
+  },
+  {
+    version: 6,
+    name: 'sync_outbox_failures',
+    statements: [
+      // Items that keep failing are parked as 'failed' instead of retried forever; rejections counts 4xx answers
+      `ALTER TABLE sync_outbox ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'`,
+      'ALTER TABLE sync_outbox ADD COLUMN rejections INTEGER NOT NULL DEFAULT 0',
+
+      'DROP INDEX idx_sync_outbox_due',
+      'CREATE INDEX idx_sync_outbox_due ON sync_outbox(status, kind, next_attempt_at, created_at)'
+    ]
+  }
+];
\ No newline at end of file
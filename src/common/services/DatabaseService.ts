@@ -1,12 +1,21 @@
 import sqlite3 from 'sqlite3';
 import * as path from 'path';
+import * as fs from 'fs';
 import { app } from 'electron';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Logger } from '../utils/Logger';
+import { MIGRATIONS } from './DatabaseMigrations';
+
+const MAX_SCHEMA_BACKUPS = 3;
 
 export class DatabaseService {
   private static instance: DatabaseService;
   private db: sqlite3.Database | null = null;
   private logger: Logger;
+  private dbPath: string | null = null;
+  private statementQueue: Promise<unknown> = Promise.resolve();
+  // Set while a transaction's own statements run, so they skip the queue the transaction holds
+  private transactionScope = new AsyncLocalStorage<boolean>();
 
   private constructor() {
     this.logger = Logger.getInstance();
@@ -24,8 +33,11 @@ export class DatabaseService {
       const userDataPath = app.getPath('userData');
       const dbPath = path.join(userDataPath, 'dam-desktop.db');
       
+      this.dbPath = dbPath;
       this.db = new sqlite3.Database(dbPath);
-      await this.createTables();
+      // sqlite ignores FOREIGN KEY clauses, ON DELETE CASCADE included, unless each connection opts in
+      await this.run('PRAGMA foreign_keys = ON');
+      await this.migrate();
       
       this.logger.info('Database initialized successfully');
     } catch (error) {
@@ -34,99 +46,130 @@ export class DatabaseService {
     }
   }
 
-  private async createTables(): Promise<void> {
-    const tables = [
-      `CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        organization_id INTEGER,
-        role TEXT DEFAULT 'user',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS organizations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        domain TEXT UNIQUE,
-        settings TEXT DEFAULT '{}',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS ai_usage (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        ai_tool TEXT NOT NULL,
-        usage_type TEXT NOT NULL,
-        content_hash TEXT,
-        tokens_used INTEGER DEFAULT 0,
-        cost_estimate REAL DEFAULT 0,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        metadata TEXT DEFAULT '{}',
-        FOREIGN KEY (user_id) REFERENCES users (id)
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS monitoring_sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        start_time DATETIME NOT NULL,
-        end_time DATETIME,
-        total_usage INTEGER DEFAULT 0,
-        total_cost REAL DEFAULT 0,
-        metadata TEXT DEFAULT '{}',
-        FOREIGN KEY (user_id) REFERENCES users (id)
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS alerts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER,
-        organization_id INTEGER,
-        type TEXT NOT NULL,
-        severity TEXT NOT NULL,
-        message TEXT NOT NULL,
-        data TEXT DEFAULT '{}',
-        resolved BOOLEAN DEFAULT FALSE,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        resolved_at DATETIME,
-        FOREIGN KEY (user_id) REFERENCES users (id),
-        FOREIGN KEY (organization_id) REFERENCES organizations (id)
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS policies (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        organization_id INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        rules TEXT NOT NULL,
-        active BOOLEAN DEFAULT TRUE,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (organization_id) REFERENCES organizations (id)
-      )`
-    ];
-
-    for (const table of tables) {
-      await this.run(table);
+  private async migrate(): Promise<void> {
+    await this.run(`CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    const row = await this.get('SELECT MAX(version) AS version FROM schema_version');
+    const currentVersion: number = row?.version ?? 0;
+    const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+    if (currentVersion > latestVersion) {
+      throw new Error(`Database schema v${currentVersion} is newer than this app supports (v${latestVersion})`);
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+    if (pending.length === 0) {
+      return;
     }
 
-    // Create indexes
-    const indexes = [
-      'CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id)',
-      'CREATE INDEX IF NOT EXISTS idx_ai_usage_timestamp ON ai_usage(timestamp)',
-      'CREATE INDEX IF NOT EXISTS idx_ai_usage_ai_tool ON ai_usage(ai_tool)',
-      'CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id)',
-      'CREATE INDEX IF NOT EXISTS idx_alerts_organization_id ON alerts(organization_id)',
-      'CREATE INDEX IF NOT EXISTS idx_monitoring_sessions_user_id ON monitoring_sessions(user_id)'
-    ];
-
-    for (const index of indexes) {
-      await this.run(index);
+    if (await this.hasExistingData()) {
+      await this.backupDatabase(currentVersion);
+    }
+
+    for (const migration of pending) {
+      await this.transaction(async () => {
+        for (const statement of migration.statements) {
+          await this.run(statement);
+        }
+        await this.run(
+          'INSERT INTO schema_version (version, name) VALUES (?, ?)',
+          [migration.version, migration.name]
+        );
+      });
+      this.logger.info(`Applied database migration ${migration.version}: ${migration.name}`);
+    }
+  }
+
+  private async hasExistingData(): Promise<boolean> {
+    const row = await this.get(
+      "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_version', 'sqlite_sequence')"
+    );
+    return (row?.count ?? 0) > 0;
+  }
+
+  private async backupDatabase(version: number): Promise<void> {
+    if (!this.dbPath) return;
+
+    const backupPath = `${this.dbPath}.v${version}-${Date.now()}.bak`;
+
+    // VACUUM INTO writes a consistent copy through the open connection
+    await this.run('VACUUM INTO ?', [backupPath]);
+    this.logger.info(`Backed up database to ${backupPath} before migrating`);
+
+    this.pruneBackups();
+  }
+
+  private pruneBackups(): void {
+    if (!this.dbPath) return;
+
+    try {
+      const dir = path.dirname(this.dbPath);
+      const prefix = `${path.basename(this.dbPath)}.v`;
+      const backups = fs.readdirSync(dir)
+        .filter(file => file.startsWith(prefix) && file.endsWith('.bak'))
+        .map(file => ({ file, mtime: fs.statSync(path.join(dir, file)).mtimeMs }))
+        .sort((a, b) => b.mtime - a.mtime);
+
+      for (const backup of backups.slice(MAX_SCHEMA_BACKUPS)) {
+        fs.unlinkSync(path.join(dir, backup.file));
+      }
+    } catch (error) {
+      this.logger.warn('Failed to prune old database backups:', error);
+    }
+  }
+
+  public async getSchemaVersion(): Promise<number> {
+    const row = await this.get('SELECT MAX(version) AS version FROM schema_version');
+    return row?.version ?? 0;
+  }
+
+  public async transaction<T>(work: () => Promise<T>): Promise<T> {
+    // A transaction started inside another joins it; waiting for the queue the outer one holds would never end
+    if (this.transactionScope.getStore()) {
+      return work();
+    }
+
+    // sqlite has one transaction per connection, so callers take turns
+    return this.enqueue(() => this.transactionScope.run(true, () => this.runTransaction(work)));
+  }
+
+  /**
+   * Statements from outside a transaction wait for it: writes would commit
+   * or roll back with it, and reads would see its uncommitted rows.
+   */
+  private enqueue<T>(statement: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return statement();
+    }
+
+    const result = this.statementQueue.then(statement);
+    this.statementQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runTransaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.run('BEGIN IMMEDIATE');
+    try {
+      const result = await work();
+      await this.run('COMMIT');
+      return result;
+    } catch (error) {
+      await this.run('ROLLBACK').catch(rollbackError => {
+        this.logger.error('Failed to roll back transaction:', rollbackError);
+      });
+      throw error;
     }
   }
 
   public async query(sql: string, params: any[] = []): Promise<any[]> {
+    return this.enqueue(() => this.all(sql, params));
+  }
+
+  private all(sql: string, params: any[]): Promise<any[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
@@ -145,6 +188,10 @@ export class DatabaseService {
   }
 
   public async run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    return this.enqueue(() => this.execute(sql, params));
+  }
+
+  private execute(sql: string, params: any[]): Promise<sqlite3.RunResult> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
@@ -162,6 +209,10 @@ export class DatabaseService {
   }
 
   public async get(sql: string, params: any[] = []): Promise<any> {
+    return this.enqueue(() => this.getRow(sql, params));
+  }
+
+  private getRow(sql: string, params: any[]): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
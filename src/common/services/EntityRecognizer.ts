@@ -0,0 +1,308 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { EntityType, RecognizedEntity, recognizeEntities, resolveEntityOverlaps } from '../utils/EntityRules';
+import { WordPieceTokenizer, WordPieceToken } from '../utils/WordPieceTokenizer';
+import {
+  DetectorCategory,
+  DetectorKind,
+  FindingSeverity,
+  SensitiveDataDetector,
+  SensitiveDataFinding
+} from './SensitiveDataDetectors';
+
+// The parts of onnxruntime-node used here; the package is an optional dependency
+interface OrtTensor {
+  data: Float32Array;
+  dims: readonly number[];
+}
+
+interface OrtSession {
+  inputNames: readonly string[];
+  outputNames: readonly string[];
+  run(feeds: Record<string, unknown>): Promise<Record<string, OrtTensor>>;
+}
+
+interface OrtModule {
+  InferenceSession: { create(path: string): Promise<OrtSession> };
+  Tensor: new (type: 'int64', data: BigInt64Array, dims: number[]) => unknown;
+}
+
+interface NerModel {
+  ort: OrtModule;
+  session: OrtSession;
+  tokenizer: WordPieceTokenizer;
+  labels: string[];
+}
+
+const MAX_MODEL_TOKENS = 510; // BERT's 512 less [CLS] and [SEP]
+const MIN_MODEL_CONFIDENCE = 0.5;
+
+// CoNLL-style tags the bundled model emits; locations are too broad to be personal data
+const MODEL_TAGS: Record<string, EntityType> = {
+  PER: 'personName',
+  ORG: 'organization'
+};
+
+/**
+ * Finds person names, organizations, postal addresses and dates of birth.
+ * A token-classification model in `ner.modelPath` (assets/ner by default)
+ * finds names and organizations the rules miss; without it, or where only
+ * a synchronous answer will do, the rules in EntityRules run alone.
+ */
+export class EntityRecognizer {
+  private static instance: EntityRecognizer;
+  private logger: Logger;
+  private configService: ConfigService;
+  private model: NerModel | null = null;
+  private modelLoading: Promise<void> | null = null;
+  // Four detectors share one recognizer; the last result saves three model runs
+  private lastRun: { text: string; entities: Promise<RecognizedEntity[]> } | null = null;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+
+    this.configService.onDidChange('ner', () => {
+      this.model = null;
+      this.modelLoading = null;
+      this.lastRun = null;
+    });
+  }
+
+  public static getInstance(): EntityRecognizer {
+    if (!EntityRecognizer.instance) {
+      EntityRecognizer.instance = new EntityRecognizer();
+    }
+    return EntityRecognizer.instance;
+  }
+
+  public recognizeWithRules(text: string): RecognizedEntity[] {
+    return recognizeEntities(text);
+  }
+
+  public recognize(text: string): Promise<RecognizedEntity[]> {
+    if (this.lastRun?.text !== text) {
+      this.lastRun = { text, entities: this.runRecognition(text) };
+    }
+    return this.lastRun.entities;
+  }
+
+  private async runRecognition(text: string): Promise<RecognizedEntity[]> {
+    const rules = recognizeEntities(text);
+    if (!text || !this.configService.get<boolean>('ner.useModel', true)) {
+      return rules;
+    }
+
+    await this.loadModel();
+    if (!this.model) {
+      return rules;
+    }
+
+    try {
+      return resolveEntityOverlaps([...(await this.runModel(this.model, text)), ...rules]);
+    } catch (error) {
+      this.logger.error('NER model failed, using rules only:', error);
+      return rules;
+    }
+  }
+
+  private loadModel(): Promise<void> {
+    if (!this.modelLoading) {
+      this.modelLoading = this.tryLoadModel();
+    }
+    return this.modelLoading;
+  }
+
+  private async tryLoadModel(): Promise<void> {
+    const modelPath = this.resolveModelPath();
+    const modelFile = path.join(modelPath, 'model.onnx');
+    if (!fs.existsSync(modelFile)) {
+      this.logger.info(`No NER model in ${modelPath}, recognizing entities with rules only`);
+      return;
+    }
+
+    try {
+      // Required lazily: the optional package may be missing, and then the rules run alone
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const ort = require('onnxruntime-node') as OrtModule;
+      const config = JSON.parse(fs.readFileSync(path.join(modelPath, 'config.json'), 'utf8'));
+      const labels = Object.keys(config.id2label)
+        .sort((a, b) => Number(a) - Number(b))
+        .map(id => String(config.id2label[id]));
+
+      const tokenizerConfigFile = path.join(modelPath, 'tokenizer_config.json');
+      const tokenizerConfig = fs.existsSync(tokenizerConfigFile)
+        ? JSON.parse(fs.readFileSync(tokenizerConfigFile, 'utf8'))
+        : {};
+      const tokenizer = new WordPieceTokenizer(
+        fs.readFileSync(path.join(modelPath, 'vocab.txt'), 'utf8'),
+        tokenizerConfig.do_lower_case === true
+      );
+
+      const session = await ort.InferenceSession.create(modelFile);
+      this.model = { ort, session, tokenizer, labels };
+      this.logger.info(`Loaded NER model from ${modelPath} with ${labels.length} labels`);
+    } catch (error) {
+      this.logger.error('Failed to load NER model, recognizing entities with rules only:', error);
+    }
+  }
+
+  private resolveModelPath(): string {
+    const configured = this.configService.get<string | null>('ner.modelPath', null);
+    if (configured) {
+      return configured;
+    }
+
+    // Packaged builds ship the model as an extra resource outside the asar
+    return app.isPackaged
+      ? path.join(process.resourcesPath, 'ner')
+      : path.join(__dirname, '../../../assets/ner');
+  }
+
+  private async runModel(model: NerModel, text: string): Promise<RecognizedEntity[]> {
+    const entities: RecognizedEntity[] = [];
+    for (const window of splitTokenWindows(model.tokenizer.tokenize(text))) {
+      const ids = [model.tokenizer.clsId, ...window.map(token => token.id), model.tokenizer.sepId];
+      const dims = [1, ids.length];
+      const feeds: Record<string, unknown> = {
+        input_ids: new model.ort.Tensor('int64', BigInt64Array.from(ids, BigInt), dims),
+        attention_mask: new model.ort.Tensor('int64', new BigInt64Array(ids.length).fill(BigInt(1)), dims)
+      };
+      if (model.session.inputNames.includes('token_type_ids')) {
+        feeds.token_type_ids = new model.ort.Tensor('int64', new BigInt64Array(ids.length), dims);
+      }
+
+      const output = (await model.session.run(feeds))[model.session.outputNames[0]];
+      entities.push(...decodeEntities(text, window, output, model.labels));
+    }
+    return entities;
+  }
+}
+
+// Splits between words so no word's pieces land in two windows
+function splitTokenWindows(tokens: WordPieceToken[]): WordPieceToken[][] {
+  const windows: WordPieceToken[][] = [];
+  let start = 0;
+  while (start < tokens.length) {
+    let end = Math.min(start + MAX_MODEL_TOKENS, tokens.length);
+    while (end < tokens.length && end > start + 1 && tokens[end].word === tokens[end - 1].word) {
+      end--;
+    }
+    windows.push(tokens.slice(start, end));
+    start = end;
+  }
+  return windows;
+}
+
+/**
+ * Turns per-token logits into entity spans. Each word takes the label of
+ * its first piece; B- starts an entity, I- of the same tag extends it, and
+ * the entity's confidence is the mean probability of its words.
+ */
+function decodeEntities(text: string, tokens: WordPieceToken[], logits: OrtTensor, labels: string[]): RecognizedEntity[] {
+  const labelCount = logits.dims[2];
+  const entities: RecognizedEntity[] = [];
+  let current: { type: EntityType; tag: string; start: number; end: number; scores: number[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      const confidence = current.scores.reduce((sum, score) => sum + score, 0) / current.scores.length;
+      if (confidence >= MIN_MODEL_CONFIDENCE) {
+        entities.push({
+          type: current.type,
+          start: current.start,
+          end: current.end,
+          value: text.substring(current.start, current.end),
+          confidence: Math.round(confidence * 100) / 100
+        });
+      }
+    }
+    current = null;
+  };
+
+  tokens.forEach((token, index) => {
+    if (index > 0 && tokens[index - 1].word === token.word) return;
+
+    // Row 0 is [CLS]
+    const row = Array.from(logits.data.subarray((index + 1) * labelCount, (index + 2) * labelCount));
+    const best = row.indexOf(Math.max(...row));
+    const probability = 1 / row.reduce((sum, logit) => sum + Math.exp(logit - row[best]), 0);
+    const [prefix, tag] = labels[best].includes('-') ? labels[best].split('-', 2) : ['I', labels[best]];
+    const type = MODEL_TAGS[tag];
+
+    if (!type) {
+      flush();
+    } else if (current && prefix === 'I' && current.tag === tag) {
+      current.end = token.end;
+      current.scores.push(probability);
+    } else {
+      flush();
+      current = { type, tag, start: token.start, end: token.end, scores: [probability] };
+    }
+  });
+  flush();
+
+  return entities;
+}
+
+interface EntityDetectorDefinition {
+  type: EntityType;
+  category: DetectorCategory;
+  severity: FindingSeverity;
+  description: string;
+}
+
+// GDPR personal data is pii; company names only matter as business context
+const ENTITY_DETECTORS: EntityDetectorDefinition[] = [
+  { type: 'personName', category: 'pii', severity: 'medium', description: 'Person name' },
+  { type: 'postalAddress', category: 'pii', severity: 'high', description: 'Postal address' },
+  { type: 'dateOfBirth', category: 'pii', severity: 'high', description: 'Date of birth' },
+  { type: 'organization', category: 'business', severity: 'low', description: 'Organization name' }
+];
+
+class EntityDetector implements SensitiveDataDetector {
+  public readonly kind: DetectorKind = 'ner';
+  public readonly id: string;
+  public readonly type: EntityType;
+  public readonly category: DetectorCategory;
+  public readonly severity: FindingSeverity;
+  public readonly description: string;
+
+  constructor(definition: EntityDetectorDefinition, private recognizer: EntityRecognizer) {
+    this.id = `builtin.${definition.type}`;
+    this.type = definition.type;
+    this.category = definition.category;
+    this.severity = definition.severity;
+    this.description = definition.description;
+  }
+
+  public detect(text: string): SensitiveDataFinding[] {
+    return this.toFindings(this.recognizer.recognizeWithRules(text));
+  }
+
+  public async detectAsync(text: string): Promise<SensitiveDataFinding[]> {
+    return this.toFindings(await this.recognizer.recognize(text));
+  }
+
+  private toFindings(entities: RecognizedEntity[]): SensitiveDataFinding[] {
+    return entities
+      .filter(entity => entity.type === this.type)
+      .map(entity => ({
+        detectorId: this.id,
+        type: this.type,
+        category: this.category,
+        severity: this.severity,
+        confidence: entity.confidence,
+        start: entity.start,
+        end: entity.end,
+        value: entity.value
+      }));
+  }
+}
+
+export function createEntityDetectors(recognizer: EntityRecognizer = EntityRecognizer.getInstance()): SensitiveDataDetector[] {
+  return ENTITY_DETECTORS.map(definition => new EntityDetector(definition, recognizer));
+}
\ No newline at end of file
@@ -0,0 +1,418 @@
+import { app } from 'electron';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { RiskLevel } from '../types/DataAPI';
+import { BROWSERS, BrowserDefinition, matchTabToWindowTitle } from './BrowserSessionReaders';
+import { BrowserUrlSource } from './BrowserUrlResolver';
+import { ScreenCaptureResult } from './ScreenCaptureService';
+import {
+  NATIVE_HOST_NAME,
+  NativeMessageReader,
+  encodeNativeMessage,
+  getBridgeSocketPath
+} from './NativeMessaging';
+
+export interface ExtensionFile {
+  name: string;
+  size: number;
+  mimeType: string;
+  text?: string; // Contents of text files, when the extension could read them
+}
+
+export type ExtensionContentEvent =
+  | { type: 'prompt'; id: string; url: string; text: string; submitted: boolean }
+  | { type: 'paste'; id: string; url: string; text: string }
+  | { type: 'upload'; id: string; url: string; files: ExtensionFile[] };
+
+export type ExtensionMessage =
+  | { type: 'hello'; browser: string; extensionVersion: string }
+  | { type: 'tab'; url: string; title: string }
+  | ExtensionContentEvent;
+
+export interface ExtensionVerdict {
+  type: 'verdict';
+  id: string;
+  decision: 'allow' | 'warn' | 'block';
+  riskLevel: RiskLevel;
+  sensitiveDataTypes: string[];
+  message: string | null;
+}
+
+export interface ExtensionTab {
+  url: string;
+  title: string;
+  browser: string;
+  updatedAt: number;
+}
+
+export class ExtensionMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtensionMessageError';
+  }
+}
+
+const MAX_TEXT_LENGTH = 200000;
+const MAX_FILES = 20;
+const TAB_STALE_MS = 10 * 60 * 1000;
+
+function requireString(value: unknown, field: string, maxLength = 4096): string {
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new ExtensionMessageError(`${field} must be a string of at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function requireUrl(value: unknown): string {
+  const url = requireString(value, 'url', 8192);
+  try {
+    const protocol = new URL(url).protocol;
+    if (protocol === 'http:' || protocol === 'https:') {
+      return url;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ExtensionMessageError('url must be an http(s) URL');
+}
+
+export function parseExtensionMessage(raw: unknown): ExtensionMessage {
+  if (!raw || typeof raw !== 'object') {
+    throw new ExtensionMessageError('Message must be an object');
+  }
+  const message = raw as Record<string, unknown>;
+
+  switch (message.type) {
+    case 'hello':
+      return {
+        type: 'hello',
+        browser: requireString(message.browser, 'browser', 64),
+        extensionVersion: requireString(message.extensionVersion, 'extensionVersion', 64)
+      };
+    case 'tab':
+      return { type: 'tab', url: requireUrl(message.url), title: requireString(message.title, 'title') };
+    case 'prompt':
+      return {
+        type: 'prompt',
+        id: requireString(message.id, 'id', 128),
+        url: requireUrl(message.url),
+        text: requireString(message.text, 'text', MAX_TEXT_LENGTH),
+        submitted: message.submitted === true
+      };
+    case 'paste':
+      return {
+        type: 'paste',
+        id: requireString(message.id, 'id', 128),
+        url: requireUrl(message.url),
+        text: requireString(message.text, 'text', MAX_TEXT_LENGTH)
+      };
+    case 'upload': {
+      if (!Array.isArray(message.files) || message.files.length === 0 || message.files.length > MAX_FILES) {
+        throw new ExtensionMessageError(`files must list between 1 and ${MAX_FILES} files`);
+      }
+      return {
+        type: 'upload',
+        id: requireString(message.id, 'id', 128),
+        url: requireUrl(message.url),
+        files: message.files.map((file: any) => {
+          if (!file || typeof file !== 'object' || typeof file.size !== 'number' || file.size < 0) {
+            throw new ExtensionMessageError('Each file needs a name, a size and a mimeType');
+          }
+          return {
+            name: requireString(file.name, 'file name', 1024),
+            size: file.size,
+            mimeType: requireString(file.mimeType, 'file mimeType', 256),
+            text: file.text === undefined ? undefined : requireString(file.text, 'file text', MAX_TEXT_LENGTH)
+          };
+        })
+      };
+    }
+    default:
+      throw new ExtensionMessageError(`Unknown message type: ${String(message.type)}`);
+  }
+}
+
+// Windows browsers find native hosts through the registry instead of a directory
+const WINDOWS_REGISTRY_KEYS: Record<string, string> = {
+  chrome: 'HKCU\\Software\\Google\\Chrome\\NativeMessagingHosts',
+  chromium: 'HKCU\\Software\\Chromium\\NativeMessagingHosts',
+  brave: 'HKCU\\Software\\BraveSoftware\\Brave-Browser\\NativeMessagingHosts',
+  edge: 'HKCU\\Software\\Microsoft\\Edge\\NativeMessagingHosts',
+  firefox: 'HKCU\\Software\\Mozilla\\NativeMessagingHosts'
+};
+
+function firefoxManifestDir(): string {
+  return process.platform === 'darwin'
+    ? path.join(os.homedir(), 'Library/Application Support/Mozilla/NativeMessagingHosts')
+    : path.join(os.homedir(), '.mozilla/native-messaging-hosts');
+}
+
+/**
+ * Accepts structured events from the companion browser extension. The
+ * browser starts the native host, which relays to this socket; every
+ * content event is answered with a verdict so the extension can warn
+ * before a prompt is submitted.
+ */
+export class ExtensionBridgeService {
+  private static instance: ExtensionBridgeService;
+  private logger: Logger;
+  private configService: ConfigService;
+  private server: net.Server | null = null;
+  private connections = new Set<net.Socket>();
+  private handler: ((event: ExtensionContentEvent) => Promise<ExtensionVerdict>) | null = null;
+  private activeTabs = new Map<string, ExtensionTab>(); // By browser
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+  }
+
+  public static getInstance(): ExtensionBridgeService {
+    if (!ExtensionBridgeService.instance) {
+      ExtensionBridgeService.instance = new ExtensionBridgeService();
+    }
+    return ExtensionBridgeService.instance;
+  }
+
+  public setEventHandler(handler: (event: ExtensionContentEvent) => Promise<ExtensionVerdict>): void {
+    this.handler = handler;
+  }
+
+  public async start(): Promise<void> {
+    if (this.server || !this.configService.get<boolean>('extension.enabled', true)) {
+      return;
+    }
+
+    const socketPath = getBridgeSocketPath(app.getPath('userData'));
+    if (process.platform !== 'win32') {
+      // A socket file left by a crashed instance would make listen() fail
+      await fs.promises.rm(socketPath, { force: true });
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    if (process.platform !== 'win32') {
+      await fs.promises.chmod(socketPath, 0o600);
+    }
+
+    server.on('error', (error) => this.logger.error('Extension bridge server error:', error));
+    this.server = server;
+    this.logger.info(`Extension bridge listening on ${socketPath}`);
+
+    try {
+      await this.installHostManifests();
+    } catch (error) {
+      this.logger.error('Failed to install native messaging host manifests:', error);
+    }
+  }
+
+  public async stop(): Promise<void> {
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    this.connections.clear();
+    this.activeTabs.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this.logger.info('Extension bridge stopped');
+    }
+  }
+
+  public getActiveTab(browser: string): ExtensionTab | null {
+    const tab = this.activeTabs.get(browser);
+    return tab && Date.now() - tab.updatedAt < TAB_STALE_MS ? tab : null;
+  }
+
+  public isConnected(): boolean {
+    return this.connections.size > 0;
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const reader = new NativeMessageReader();
+    let browser = 'unknown';
+    this.connections.add(socket);
+
+    const send = (message: unknown) => {
+      if (!socket.destroyed) {
+        socket.write(encodeNativeMessage(message));
+      }
+    };
+
+    socket.on('data', async (chunk: Buffer) => {
+      let messages: unknown[];
+      try {
+        messages = reader.push(chunk);
+      } catch (error) {
+        // Framing is lost once a frame is bad, so the connection cannot recover
+        this.logger.warn('Dropping extension connection with a malformed frame:', error);
+        socket.destroy();
+        return;
+      }
+
+      for (const raw of messages) {
+        let message: ExtensionMessage;
+        try {
+          message = parseExtensionMessage(raw);
+        } catch (error) {
+          const id = typeof (raw as any)?.id === 'string' ? (raw as any).id : undefined;
+          send({ type: 'error', id, error: error instanceof Error ? error.message : 'Invalid message' });
+          continue;
+        }
+
+        if (message.type === 'hello') {
+          browser = message.browser.toLowerCase();
+          this.logger.info(`Companion extension ${message.extensionVersion} connected from ${message.browser}`);
+          send({ type: 'welcome', appVersion: app.getVersion() });
+        } else if (message.type === 'tab') {
+          this.activeTabs.set(browser, { url: message.url, title: message.title, browser, updatedAt: Date.now() });
+        } else {
+          send(await this.dispatch(message));
+        }
+      }
+    });
+
+    socket.on('error', (error) => this.logger.warn('Extension connection error:', error));
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      this.activeTabs.delete(browser);
+    });
+  }
+
+  private async dispatch(event: ExtensionContentEvent): Promise<ExtensionVerdict | { type: 'error'; id: string; error: string }> {
+    if (!this.handler) {
+      return { type: 'error', id: event.id, error: 'Analysis is not available yet' };
+    }
+
+    try {
+      return await this.handler(event);
+    } catch (error) {
+      this.logger.error(`Failed to analyze extension ${event.type} event:`, error);
+      return { type: 'error', id: event.id, error: 'Analysis failed' };
+    }
+  }
+
+  /**
+   * Registers the native host with every installed browser for the
+   * configured extension ids. The manifest points at a wrapper that runs
+   * this app's binary as Node with the relay script.
+   */
+  private async installHostManifests(): Promise<void> {
+    const chromiumIds = this.configService.get<string[]>('extension.chromiumExtensionIds', []);
+    const firefoxIds = this.configService.get<string[]>('extension.firefoxExtensionIds', []);
+    if (chromiumIds.length === 0 && firefoxIds.length === 0) {
+      return;
+    }
+
+    const hostDir = path.join(app.getPath('userData'), 'native-host');
+    await fs.promises.mkdir(hostDir, { recursive: true });
+    const wrapper = await this.writeHostWrapper(hostDir);
+
+    const base = {
+      name: NATIVE_HOST_NAME,
+      description: 'DAM Desktop companion extension bridge',
+      path: wrapper,
+      type: 'stdio'
+    };
+
+    for (const browser of BROWSERS) {
+      if (browser.family === 'chromium' && chromiumIds.length > 0) {
+        await this.writeManifest(browser, hostDir, {
+          ...base,
+          allowed_origins: chromiumIds.map(id => `chrome-extension://${id}/`)
+        });
+      } else if (browser.family === 'firefox' && firefoxIds.length > 0) {
+        await this.writeManifest(browser, hostDir, { ...base, allowed_extensions: firefoxIds });
+      }
+    }
+  }
+
+  private async writeHostWrapper(hostDir: string): Promise<string> {
+    const hostScript = path.join(__dirname, '../../main/nativeMessagingHost.js');
+    const socketPath = getBridgeSocketPath(app.getPath('userData'));
+
+    if (process.platform === 'win32') {
+      const wrapper = path.join(hostDir, 'dam-native-host.cmd');
+      await fs.promises.writeFile(wrapper, [
+        '@echo off',
+        'set ELECTRON_RUN_AS_NODE=1',
+        `"${process.execPath}" "${hostScript}" --socket "${socketPath}" %*`,
+        ''
+      ].join('\r\n'));
+      return wrapper;
+    }
+
+    const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+    const wrapper = path.join(hostDir, 'dam-native-host.sh');
+    await fs.promises.writeFile(wrapper, [
+      '#!/bin/sh',
+      `ELECTRON_RUN_AS_NODE=1 exec ${quote(process.execPath)} ${quote(hostScript)} --socket ${quote(socketPath)} "$@"`,
+      ''
+    ].join('\n'), { mode: 0o755 });
+    return wrapper;
+  }
+
+  private async writeManifest(browser: BrowserDefinition, hostDir: string, manifest: object): Promise<void> {
+    // Only browsers that are installed get a manifest
+    const installed = (browser.userDataDirs[process.platform] || []).filter(dir => fs.existsSync(dir));
+    if (installed.length === 0) {
+      return;
+    }
+
+    const fileName = `${NATIVE_HOST_NAME}.json`;
+    const contents = JSON.stringify(manifest, null, 2);
+
+    if (process.platform === 'win32') {
+      const manifestPath = path.join(hostDir, `${browser.id}-${fileName}`);
+      await fs.promises.writeFile(manifestPath, contents);
+      await new Promise<void>((resolve, reject) => {
+        execFile('reg', ['add', `${WINDOWS_REGISTRY_KEYS[browser.id]}\\${NATIVE_HOST_NAME}`, '/ve', '/t', 'REG_SZ', '/d', manifestPath, '/f'],
+          { timeout: 5000 }, (error) => error ? reject(error) : resolve());
+      });
+      this.logger.info(`Registered native messaging host for ${browser.id}`);
+      return;
+    }
+
+    const dirs = browser.family === 'firefox'
+      ? [firefoxManifestDir()]
+      : installed.map(dir => path.join(dir, 'NativeMessagingHosts'));
+
+    for (const dir of dirs) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, fileName), contents);
+      this.logger.info(`Installed native messaging host manifest for ${browser.id} in ${dir}`);
+    }
+  }
+}
+
+/**
+ * Highest-fidelity URL source: the active tab reported by the companion
+ * extension, used while its title still matches the focused window.
+ */
+export class ExtensionTabUrlSource implements BrowserUrlSource {
+  public readonly name = 'extension';
+
+  constructor(private bridge: ExtensionBridgeService) {}
+
+  public async resolve(capture: ScreenCaptureResult, browser: BrowserDefinition): Promise<string | null> {
+    const tab = this.bridge.getActiveTab(browser.id);
+    if (!tab) {
+      return null;
+    }
+    return matchTabToWindowTitle([{ url: tab.url, title: tab.title, order: 0 }], capture.activeWindow)?.url ?? null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { WindowBounds } from './ActiveWindowProvider';
+
+/**
+ * A coarse luminance grid of a captured frame. The frame is split into
+ * square blocks and each block keeps SAMPLES_PER_BLOCK² averaged samples,
+ * which is enough to see a typed character but ignores compression noise.
+ */
+export interface FrameFingerprint {
+  width: number; // Source image size in pixels
+  height: number;
+  blockSize: number; // Block edge in source image pixels
+  columns: number;
+  rows: number;
+  samples: Uint8Array; // columns * rows * SAMPLES_PER_BLOCK²
+}
+
+export interface FrameChange {
+  changed: boolean;
+  reason: 'first_frame' | 'resized' | 'content' | 'unchanged';
+  changedBlocks: number;
+  changedFraction: number;
+  dirtyRegions: WindowBounds[]; // Source image pixels
+}
+
+export const SAMPLES_PER_BLOCK = 4;
+const DEFAULT_BLOCK_SIZE = 64;
+const SAMPLE_THRESHOLD = 24; // Luminance delta (0-255) for a sample to count as changed
+const MIN_CHANGED_BLOCKS = 2; // A blinking caret alone touches a single block
+const MAX_TRACKED_WINDOWS = 20;
+
+export function fingerprintGrid(width: number, height: number, blockSize = DEFAULT_BLOCK_SIZE) {
+  const columns = Math.max(1, Math.ceil(width / blockSize));
+  const rows = Math.max(1, Math.ceil(height / blockSize));
+  return {
+    columns,
+    rows,
+    sampleWidth: columns * SAMPLES_PER_BLOCK,
+    sampleHeight: rows * SAMPLES_PER_BLOCK
+  };
+}
+
+/**
+ * Builds a fingerprint from a BGRA bitmap that was already downscaled to the
+ * grid returned by fingerprintGrid(), so the expensive averaging is done by
+ * the native image resampler.
+ */
+export function createFrameFingerprint(
+  bitmap: Buffer,
+  width: number,
+  height: number,
+  blockSize = DEFAULT_BLOCK_SIZE
+): FrameFingerprint {
+  const { columns, rows, sampleWidth, sampleHeight } = fingerprintGrid(width, height, blockSize);
+  const samples = new Uint8Array(columns * rows * SAMPLES_PER_BLOCK * SAMPLES_PER_BLOCK);
+
+  for (let y = 0; y < sampleHeight; y++) {
+    for (let x = 0; x < sampleWidth; x++) {
+      const offset = (y * sampleWidth + x) * 4;
+      if (offset + 2 >= bitmap.length) continue;
+
+      // Rec. 601 luma from BGRA
+      const luma = (bitmap[offset + 2] * 299 + bitmap[offset + 1] * 587 + bitmap[offset] * 114) / 1000;
+
+      // Store samples grouped by block so a block is one contiguous run
+      const block = Math.floor(y / SAMPLES_PER_BLOCK) * columns + Math.floor(x / SAMPLES_PER_BLOCK);
+      const within = (y % SAMPLES_PER_BLOCK) * SAMPLES_PER_BLOCK + (x % SAMPLES_PER_BLOCK);
+      samples[block * SAMPLES_PER_BLOCK * SAMPLES_PER_BLOCK + within] = Math.round(luma);
+    }
+  }
+
+  return { width, height, blockSize, columns, rows, samples };
+}
+
+export class FrameChangeDetector {
+  private static instance: FrameChangeDetector;
+  private previous = new Map<string, FrameFingerprint>();
+
+  private constructor() {}
+
+  public static getInstance(): FrameChangeDetector {
+    if (!FrameChangeDetector.instance) {
+      FrameChangeDetector.instance = new FrameChangeDetector();
+    }
+    return FrameChangeDetector.instance;
+  }
+
+  public compare(windowKey: string, fingerprint: FrameFingerprint): FrameChange {
+    const previous = this.previous.get(windowKey);
+    const fullFrame = [{ x: 0, y: 0, width: fingerprint.width, height: fingerprint.height }];
+
+    if (!previous) {
+      return { changed: true, reason: 'first_frame', changedBlocks: 0, changedFraction: 1, dirtyRegions: fullFrame };
+    }
+
+    if (previous.width !== fingerprint.width || previous.height !== fingerprint.height ||
+        previous.blockSize !== fingerprint.blockSize) {
+      return { changed: true, reason: 'resized', changedBlocks: 0, changedFraction: 1, dirtyRegions: fullFrame };
+    }
+
+    const perBlock = SAMPLES_PER_BLOCK * SAMPLES_PER_BLOCK;
+    const dirty: boolean[] = new Array(fingerprint.columns * fingerprint.rows).fill(false);
+    let changedBlocks = 0;
+
+    for (let block = 0; block < dirty.length; block++) {
+      for (let i = block * perBlock; i < (block + 1) * perBlock; i++) {
+        if (Math.abs(fingerprint.samples[i] - previous.samples[i]) >= SAMPLE_THRESHOLD) {
+          dirty[block] = true;
+          changedBlocks++;
+          break;
+        }
+      }
+    }
+
+    const changedFraction = changedBlocks / dirty.length;
+    if (changedBlocks < MIN_CHANGED_BLOCKS) {
+      return { changed: false, reason: 'unchanged', changedBlocks, changedFraction, dirtyRegions: [] };
+    }
+
+    return {
+      changed: true,
+      reason: 'content',
+      changedBlocks,
+      changedFraction,
+      dirtyRegions: this.mergeDirtyBlocks(dirty, fingerprint)
+    };
+  }
+
+  // Only frames that were actually analyzed become the new baseline
+  public remember(windowKey: string, fingerprint: FrameFingerprint): void {
+    this.previous.delete(windowKey);
+    this.previous.set(windowKey, fingerprint);
+
+    // Map keeps insertion order, so the first key is the least recently analyzed window
+    if (this.previous.size > MAX_TRACKED_WINDOWS) {
+      const oldest = this.previous.keys().next().value;
+      if (oldest !== undefined) {
+        this.previous.delete(oldest);
+      }
+    }
+  }
+
+  public forget(windowKey?: string): void {
+    if (windowKey === undefined) {
+      this.previous.clear();
+    } else {
+      this.previous.delete(windowKey);
+    }
+  }
+
+  /**
+   * Groups dirty blocks into rectangles: horizontal runs per row, then runs
+   * with the same column span in consecutive rows are stacked. Each rectangle
+   * grows by one block so OCR sees whole words at the edges.
+   */
+  private mergeDirtyBlocks(dirty: boolean[], fingerprint: FrameFingerprint): WindowBounds[] {
+    const { columns, rows, blockSize, width, height } = fingerprint;
+    const open = new Map<string, { startColumn: number; endColumn: number; startRow: number; endRow: number }>();
+    const closed: Array<{ startColumn: number; endColumn: number; startRow: number; endRow: number }> = [];
+
+    for (let row = 0; row < rows; row++) {
+      const runs: Array<[number, number]> = [];
+      let column = 0;
+      while (column < columns) {
+        if (!dirty[row * columns + column]) {
+          column++;
+          continue;
+        }
+        const start = column;
+        while (column < columns && dirty[row * columns + column]) column++;
+        runs.push([start, column - 1]);
+      }
+
+      const seen = new Set<string>();
+      for (const [start, end] of runs) {
+        const key = `${start}:${end}`;
+        seen.add(key);
+        const rect = open.get(key);
+        if (rect) {
+          rect.endRow = row;
+        } else {
+          open.set(key, { startColumn: start, endColumn: end, startRow: row, endRow: row });
+        }
+      }
+
+      for (const [key, rect] of Array.from(open.entries())) {
+        if (!seen.has(key)) {
+          closed.push(rect);
+          open.delete(key);
+        }
+      }
+    }
+    closed.push(...open.values());
+
+    return closed.map(rect => {
+      const x = Math.max(0, (rect.startColumn - 1) * blockSize);
+      const y = Math.max(0, (rect.startRow - 1) * blockSize);
+      return {
+        x,
+        y,
+        width: Math.min(width, (rect.endColumn + 2) * blockSize) - x,
+        height: Math.min(height, (rect.endRow + 2) * blockSize) - y
+      };
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,260 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import { ActiveWindowInfo, ActiveWindowProvider, WindowBounds } from './ActiveWindowProvider';
+
+const COMMAND_TIMEOUT_MS = 1000;
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+async function commandWorks(command: string, args: string[]): Promise<boolean> {
+  try {
+    await run(command, args);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Process details come from /proc; other users' processes may hide exe, so each field is optional
+function describeProcess(pid: number | null): { executable: string | null; command: string | null } {
+  if (!pid) {
+    return { executable: null, command: null };
+  }
+
+  let executable: string | null = null;
+  let command: string | null = null;
+
+  try {
+    executable = fs.readlinkSync(`/proc/${pid}/exe`);
+  } catch {
+    // Permission denied or the process already exited
+  }
+
+  try {
+    command = fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim() || null;
+  } catch {
+    // Process already exited
+  }
+
+  return { executable, command };
+}
+
+function unescapeXString(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Parses `xprop -id` output into a property map. String properties become
+ * arrays of their quoted values, everything else stays as raw text.
+ */
+export function parseXprop(output: string): Map<string, string[]> {
+  const properties = new Map<string, string[]>();
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^([A-Z_a-z0-9]+)\([^)]*\)\s*[=:]\s*(.*)$/);
+    if (!match) continue;
+
+    const [, name, rawValue] = match;
+    const quoted = Array.from(rawValue.matchAll(/"((?:[^"\\]|\\.)*)"/g)).map(m => unescapeXString(m[1]));
+    properties.set(name, quoted.length > 0 ? quoted : [rawValue.trim()]);
+  }
+
+  return properties;
+}
+
+// Wayland compositors report logical coordinates; bounds are in the same physical space as Electron's displays
+export function scaleBounds(bounds: WindowBounds, scale: number): WindowBounds {
+  return {
+    x: Math.round(bounds.x * scale),
+    y: Math.round(bounds.y * scale),
+    width: Math.round(bounds.width * scale),
+    height: Math.round(bounds.height * scale)
+  };
+}
+
+export function parseXwininfoBounds(output: string): WindowBounds | null {
+  const read = (label: string): number | null => {
+    const match = output.match(new RegExp(`${label}:\\s*(-?\\d+)`));
+    return match ? Number(match[1]) : null;
+  };
+
+  const x = read('Absolute upper-left X');
+  const y = read('Absolute upper-left Y');
+  const width = read('Width');
+  const height = read('Height');
+
+  if (x === null || y === null || !width || !height) {
+    return null;
+  }
+  return { x, y, width, height };
+}
+
+/**
+ * Reads the EWMH _NET_ACTIVE_WINDOW hint from the root window, then the
+ * focused window's title, WM_CLASS and _NET_WM_PID. Requires xprop and
+ * xwininfo (x11-utils), which every mainstream X11 desktop ships.
+ */
+export class X11WindowProvider implements ActiveWindowProvider {
+  public readonly name = 'x11';
+
+  public async isSupported(): Promise<boolean> {
+    if (!process.env.DISPLAY) return false;
+    return commandWorks('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+  }
+
+  public async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    const root = await run('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+    const windowId = root.match(/window id # (0x[0-9a-f]+)/i)?.[1];
+    if (!windowId || /^0x0+$/i.test(windowId)) {
+      return null;
+    }
+
+    const properties = parseXprop(
+      await run('xprop', ['-id', windowId, '_NET_WM_NAME', 'WM_NAME', 'WM_CLASS', '_NET_WM_PID'])
+    );
+
+    const pidValue = Number(properties.get('_NET_WM_PID')?.[0]);
+    const pid = Number.isInteger(pidValue) && pidValue > 0 ? pidValue : null;
+    const wmClass = properties.get('WM_CLASS') || [];
+    const processInfo = describeProcess(pid);
+
+    let bounds: WindowBounds | null = null;
+    try {
+      bounds = parseXwininfoBounds(await run('xwininfo', ['-id', windowId]));
+    } catch {
+      // xwininfo missing: title and process are still useful without bounds
+    }
+
+    return {
+      title: properties.get('_NET_WM_NAME')?.[0] ?? properties.get('WM_NAME')?.[0] ?? '',
+      // WM_CLASS is "instance", "Class"; the class is the stable application name
+      appName: wmClass[1] || wmClass[0] || processInfo.command || 'Unknown',
+      pid,
+      executable: processInfo.executable,
+      bounds,
+      windowId,
+      source: 'x11'
+    };
+  }
+}
+
+interface SwayNode {
+  type?: string;
+  focused?: boolean;
+  name?: string | null;
+  pid?: number;
+  app_id?: string | null;
+  id?: number;
+  rect?: WindowBounds;
+  window_properties?: { class?: string };
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+}
+
+// sway and other wlroots compositors speaking the i3 IPC protocol
+export class SwayWindowProvider implements ActiveWindowProvider {
+  public readonly name = 'sway';
+
+  public async isSupported(): Promise<boolean> {
+    if (!process.env.SWAYSOCK) return false;
+    return commandWorks('swaymsg', ['-t', 'get_version']);
+  }
+
+  public async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    const tree: SwayNode = JSON.parse(await run('swaymsg', ['-t', 'get_tree', '-r']));
+    const match = this.findFocused(tree, null);
+    if (!match) {
+      return null;
+    }
+
+    const { node: focused, output } = match;
+    const pid = focused.pid ?? null;
+    const processInfo = describeProcess(pid);
+
+    return {
+      title: focused.name || '',
+      appName: focused.app_id || focused.window_properties?.class || processInfo.command || 'Unknown',
+      pid,
+      executable: processInfo.executable,
+      bounds: focused.rect ? scaleBounds(focused.rect, await this.getOutputScale(output)) : null,
+      windowId: focused.id !== undefined ? String(focused.id) : null,
+      source: 'sway'
+    };
+  }
+
+  private findFocused(node: SwayNode, output: string | null): { node: SwayNode; output: string | null } | null {
+    if (node.focused && node.pid) {
+      return { node, output };
+    }
+    const childOutput = node.type === 'output' ? node.name ?? null : output;
+    for (const child of [...(node.nodes || []), ...(node.floating_nodes || [])]) {
+      const found = this.findFocused(child, childOutput);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private async getOutputScale(output: string | null): Promise<number> {
+    try {
+      const outputs: Array<{ name?: string; scale?: number }> = JSON.parse(await run('swaymsg', ['-t', 'get_outputs', '-r']));
+      const scale = outputs.find(candidate => candidate.name === output)?.scale;
+      return typeof scale === 'number' && scale > 0 ? scale : 1;
+    } catch {
+      return 1;
+    }
+  }
+}
+
+export class HyprlandWindowProvider implements ActiveWindowProvider {
+  public readonly name = 'hyprland';
+
+  public async isSupported(): Promise<boolean> {
+    if (!process.env.HYPRLAND_INSTANCE_SIGNATURE) return false;
+    return commandWorks('hyprctl', ['version']);
+  }
+
+  public async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    const window = JSON.parse(await run('hyprctl', ['activewindow', '-j']));
+    if (!window || !window.address) {
+      return null;
+    }
+
+    const pid = typeof window.pid === 'number' && window.pid > 0 ? window.pid : null;
+    const processInfo = describeProcess(pid);
+
+    return {
+      title: window.title || '',
+      appName: window.class || processInfo.command || 'Unknown',
+      pid,
+      executable: processInfo.executable,
+      bounds: Array.isArray(window.at) && Array.isArray(window.size)
+        ? scaleBounds(
+            { x: window.at[0], y: window.at[1], width: window.size[0], height: window.size[1] },
+            await this.getMonitorScale(window.monitor)
+          )
+        : null,
+      windowId: window.address,
+      source: 'hyprland'
+    };
+  }
+
+  private async getMonitorScale(monitorId: unknown): Promise<number> {
+    try {
+      const monitors: Array<{ id?: number; scale?: number }> = JSON.parse(await run('hyprctl', ['monitors', '-j']));
+      const scale = monitors.find(monitor => monitor.id === monitorId)?.scale;
+      return typeof scale === 'number' && scale > 0 ? scale : 1;
+    } catch {
+      return 1;
+    }
+  }
+}
\ No newline at end of file
@@ -2,12 +2,37 @@ import { BrowserWindow, desktopCapturer } from 'electron';
 import { Logger } from '../utils/Logger';
 import { DatabaseService } from './DatabaseService';
 import { AIDetectionService } from './AIDetectionService';
-import { ScreenCaptureService } from './ScreenCaptureService';
-import { OCRService } from './OCRService';
-import { AIContentAnalyzer } from './AIContentAnalyzer';
+import { ScreenCaptureService, ScreenCaptureResult } from './ScreenCaptureService';
+import { OCRService, OCRResult, TextRegion } from './OCRService';
+import { AIContentAnalyzer, AnalysisResult } from './AIContentAnalyzer';
 import { NotificationService } from './NotificationService';
-import { AIWindowDetector } from './AIWindowDetector';
+import { AIWindowDetector, AIWindowInfo } from './AIWindowDetector';
 import { NotificationSettings } from './NotificationSettings';
+import { PolicyEngine, PolicyEvaluation, PolicyViolation } from './PolicyEngine';
+import { ConfigService } from './ConfigService';
+import { AnalysisRepository } from './AnalysisRepository';
+import { FrameChangeDetector, FrameChange } from './FrameChangeDetector';
+import { WindowBounds } from './ActiveWindowProvider';
+import { CaptureScheduler, CaptureSchedulerStatus } from './CaptureScheduler';
+import { BrowserUrlResolver } from './BrowserUrlResolver';
+import { ExtensionContentEvent, ExtensionVerdict } from './ExtensionBridgeService';
+import { ClipboardMonitor } from './ClipboardMonitor';
+import { TerminalProcessDetector, TerminalAISession, TerminalSessionChange } from './TerminalProcessDetector';
+import { DashboardSyncService } from './DashboardSyncService';
+import { NetworkMonitor, NetworkAIFlow, NetworkFlowChange } from './NetworkMonitor';
+import { AIToolRegistry } from './AIToolRegistry';
+import { segmentChatText, SegmentedConversation } from './ChatSegmenter';
+import { RedactionVault } from './RedactionVault';
+import { LOCAL_USER_ID } from './DatabaseMigrations';
+
+// Above this share of changed blocks a full OCR pass is cheaper than many region jobs
+const MAX_PARTIAL_OCR_FRACTION = 0.35;
+
+// A violation that persists on screen is alerted once per session, then again after this long
+const POLICY_ALERT_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Violations a redacted copy of the prompt would resolve; a tool or time of day stays blocked either way
+const REDACTABLE_RULE_KINDS: ReadonlyArray<PolicyViolation['ruleKind']> = ['forbiddenDataTypes', 'maxRiskLevel'];
 
 export class MonitoringService {
   private static instance: MonitoringService;
@@ -22,7 +47,25 @@ export class MonitoringService {
   private notificationService: NotificationService;
   private aiWindowDetector: AIWindowDetector;
   private notificationSettings: NotificationSettings;
+  private policyEngine: PolicyEngine;
+  private configService: ConfigService;
+  private analysisRepository: AnalysisRepository;
+  private frameChangeDetector: FrameChangeDetector;
+  private captureScheduler: CaptureScheduler;
+  private browserUrlResolver: BrowserUrlResolver;
+  private clipboardMonitor: ClipboardMonitor;
+  private terminalProcessDetector: TerminalProcessDetector;
+  private networkMonitor: NetworkMonitor;
+  private toolRegistry: AIToolRegistry;
+  private redactionVault: RedactionVault;
+  private dashboardSyncService: DashboardSyncService;
+  private unsubscribeScheduler: (() => void) | null = null;
+  private unsubscribeTerminalSessions: (() => void) | null = null;
+  private unsubscribeNetworkFlows: (() => void) | null = null;
+  private lastOCR: { windowKey: string; result: OCRResult } | null = null;
   private currentSessionId: number | null = null;
+  private userId: number | null = null;
+  private policyAlertTimes = new Map<string, number>(); // Violation key -> when it was last alerted
   private lastAnalysisTime = 0;
   private analysisThrottleMs = 3000; // Analyze at most every 3 seconds to reduce annoyance
   private lastNotificationTime = 0;
@@ -38,6 +81,23 @@ export class MonitoringService {
     this.notificationService = NotificationService.getInstance();
     this.aiWindowDetector = AIWindowDetector.getInstance();
     this.notificationSettings = NotificationSettings.getInstance();
+    this.policyEngine = PolicyEngine.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.analysisRepository = AnalysisRepository.getInstance();
+    this.frameChangeDetector = FrameChangeDetector.getInstance();
+    this.captureScheduler = CaptureScheduler.getInstance();
+    this.browserUrlResolver = BrowserUrlResolver.getInstance();
+    this.clipboardMonitor = ClipboardMonitor.getInstance();
+    this.terminalProcessDetector = TerminalProcessDetector.getInstance();
+    this.networkMonitor = NetworkMonitor.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
+    this.redactionVault = RedactionVault.getInstance();
+    this.dashboardSyncService = DashboardSyncService.getInstance();
+
+    // A new enterprise email means activity from now on belongs to another users row
+    this.configService.onDidChange('enterprise', () => {
+      this.userId = null;
+    });
   }
 
   public static getInstance(): MonitoringService {
@@ -50,7 +110,8 @@ export class MonitoringService {
   public async initialize(): Promise<void> {
     try {
       await this.aiDetectionService.initialize();
-      await this.ocrService.initialize();
+      await this.initializeOCR();
+      await this.policyEngine.initialize();
       this.logger.info('Monitoring service initialized successfully');
     } catch (error) {
       this.logger.error('Failed to initialize monitoring service:', error);
@@ -58,6 +119,15 @@ export class MonitoringService {
     }
   }
 
+  // Clipboard text, terminal, network and extension monitoring all work without OCR
+  private async initializeOCR(): Promise<void> {
+    try {
+      await this.ocrService.initialize();
+    } catch {
+      this.logger.warn('OCR is disabled, screen and clipboard image scans are skipped until the OCR settings change');
+    }
+  }
+
   public async start(): Promise<void> {
     if (this.isActive) {
       this.logger.warn('Monitoring service is already active');
@@ -68,6 +138,9 @@ export class MonitoringService {
       this.isActive = true;
       await this.startMonitoringSession();
       this.startScreenCapture();
+      this.clipboardMonitor.start();
+      this.startTerminalDetection();
+      await this.startNetworkMonitoring();
       
       this.logger.info('Monitoring service started');
       this.notifyStatusChange();
@@ -88,6 +161,12 @@ export class MonitoringService {
       this.isActive = false;
       
       this.screenCaptureService.stopCapture();
+      this.stopCaptureScheduler();
+      this.clipboardMonitor.stop();
+      this.stopTerminalDetection();
+      this.stopNetworkMonitoring();
+      this.frameChangeDetector.forget();
+      this.lastOCR = null;
       await this.endMonitoringSession();
       
       this.logger.info('Monitoring service stopped');
@@ -98,10 +177,11 @@ export class MonitoringService {
     }
   }
 
-  public getStatus(): { active: boolean; sessionId: number | null } {
+  public getStatus(): { active: boolean; sessionId: number | null; capture: CaptureSchedulerStatus | null } {
     return {
       active: this.isActive,
-      sessionId: this.currentSessionId
+      sessionId: this.currentSessionId,
+      capture: this.isActive ? this.captureScheduler.getStatus() : null
     };
   }
 
@@ -124,10 +204,11 @@ export class MonitoringService {
     try {
       const result = await this.databaseService.run(
         'INSERT INTO monitoring_sessions (user_id, start_time) VALUES (?, ?)',
-        [1, new Date().toISOString()] // TODO: Use actual user ID
+        [await this.resolveUserId(), new Date().toISOString()]
       );
       
       this.currentSessionId = result.lastID;
+      this.policyAlertTimes.clear();
       this.logger.info(`Started monitoring session ${this.currentSessionId}`);
     } catch (error) {
       this.logger.error('Failed to start monitoring session:', error);
@@ -152,13 +233,177 @@ export class MonitoringService {
   }
 
   private startScreenCapture(): void {
+    // Mode changes rearm the capture timer and tell the UI why the cadence changed
+    this.unsubscribeScheduler = this.captureScheduler.onChange(() => {
+      this.screenCaptureService.reschedule();
+      this.notifyStatusChange();
+    });
+    this.captureScheduler.start();
+
     // Start screen capture with analysis callback
-    this.screenCaptureService.startCapture(5000, async (capture) => {
+    this.screenCaptureService.startCapture(() => this.captureScheduler.getNextInterval(), async (capture) => {
       await this.analyzeScreenCapture(capture);
     });
   }
 
-  private async analyzeScreenCapture(capture: any): Promise<void> {
+  private stopCaptureScheduler(): void {
+    if (this.unsubscribeScheduler) {
+      this.unsubscribeScheduler();
+      this.unsubscribeScheduler = null;
+    }
+    this.captureScheduler.stop();
+  }
+
+  private startTerminalDetection(): void {
+    this.unsubscribeTerminalSessions = this.terminalProcessDetector.onSessionChange(change => {
+      this.recordTerminalSession(change);
+    });
+    this.terminalProcessDetector.start();
+  }
+
+  private stopTerminalDetection(): void {
+    // Stopping first lets the detector close out running sessions through the listener
+    this.terminalProcessDetector.stop();
+    if (this.unsubscribeTerminalSessions) {
+      this.unsubscribeTerminalSessions();
+      this.unsubscribeTerminalSessions = null;
+    }
+  }
+
+  private async recordTerminalSession(change: TerminalSessionChange): Promise<void> {
+    const { session } = change;
+
+    try {
+      if (change.type === 'started') {
+        await this.databaseService.run(
+          `INSERT OR IGNORE INTO terminal_ai_sessions (id, tool, command, pid, terminal_app, terminal_pid, started_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [session.id, session.tool, session.command, session.pid, session.terminalApp, session.terminalPid, session.startedAt]
+        );
+
+        // Counted with screen-detected usage so CLI tools show up in the usage summary
+        await this.databaseService.run(
+          `INSERT INTO ai_usage (user_id, ai_tool, usage_type, metadata)
+           VALUES (?, ?, ?, ?)`,
+          [
+            await this.resolveUserId(),
+            session.tool,
+            'terminal_session',
+            JSON.stringify({ sessionId: session.id, terminalApp: session.terminalApp })
+          ]
+        );
+      } else if (change.type === 'window') {
+        await this.databaseService.run(
+          'UPDATE terminal_ai_sessions SET window_title = ? WHERE id = ?',
+          [session.windowTitle, session.id]
+        );
+      } else {
+        await this.databaseService.run(
+          'UPDATE terminal_ai_sessions SET ended_at = ? WHERE id = ?',
+          [session.endedAt, session.id]
+        );
+        this.syncTerminalSession(session);
+      }
+    } catch (error) {
+      this.logger.error('Failed to record terminal AI session:', error);
+    }
+  }
+
+  private syncTerminalSession(session: TerminalAISession): void {
+    this.dashboardSyncService.recordUsageEvent({
+      userId: this.configService.get<string | null>('enterprise.userEmail', null) || 'unknown',
+      userEmail: this.configService.get<string | null>('enterprise.userEmail', null) || 'unknown',
+      userRole: this.configService.get<string | null>('enterprise.userRole', null) || 'unknown',
+      aiTool: session.tool,
+      action: 'conversation',
+      category: 'terminal',
+      riskLevel: 'low',
+      contentType: 'other',
+      sensitiveDataDetected: false,
+      apiKeyExposed: false,
+      complianceFlags: [],
+      metadata: {
+        source: 'process',
+        command: session.command,
+        terminalApp: session.terminalApp,
+        windowTitle: session.windowTitle,
+        startedAt: session.startedAt,
+        durationMs: (session.endedAt ?? Date.now()) - session.startedAt
+      }
+    });
+  }
+
+  private async startNetworkMonitoring(): Promise<void> {
+    this.unsubscribeNetworkFlows = this.networkMonitor.onFlowChange(change => {
+      this.recordNetworkFlow(change);
+    });
+    await this.networkMonitor.start();
+  }
+
+  private stopNetworkMonitoring(): void {
+    this.networkMonitor.stop();
+    if (this.unsubscribeNetworkFlows) {
+      this.unsubscribeNetworkFlows();
+      this.unsubscribeNetworkFlows = null;
+    }
+  }
+
+  private async recordNetworkFlow(change: NetworkFlowChange): Promise<void> {
+    const { flow } = change;
+
+    if (change.type === 'ended') {
+      this.syncNetworkFlow(flow);
+      return;
+    }
+
+    try {
+      // Recorded without a screenshot, so IDE plugins and scripts count as usage too
+      await this.databaseService.run(
+        `INSERT INTO ai_usage (user_id, ai_tool, usage_type, metadata)
+         VALUES (?, ?, ?, ?)`,
+        [
+          await this.resolveUserId(),
+          flow.tool,
+          'network_connection',
+          JSON.stringify({
+            host: flow.host,
+            processName: flow.processName,
+            executable: flow.executable,
+            pid: flow.pid
+          })
+        ]
+      );
+    } catch (error) {
+      this.logger.error('Failed to record network AI usage:', error);
+    }
+  }
+
+  private syncNetworkFlow(flow: NetworkAIFlow): void {
+    this.dashboardSyncService.recordUsageEvent({
+      userId: this.configService.get<string | null>('enterprise.userEmail', null) || 'unknown',
+      userEmail: this.configService.get<string | null>('enterprise.userEmail', null) || 'unknown',
+      userRole: this.configService.get<string | null>('enterprise.userRole', null) || 'unknown',
+      aiTool: flow.tool,
+      action: 'conversation',
+      category: 'network',
+      riskLevel: 'low',
+      contentType: 'other',
+      sensitiveDataDetected: false,
+      apiKeyExposed: false,
+      complianceFlags: [],
+      metadata: {
+        source: 'network',
+        host: flow.host,
+        processName: flow.processName,
+        executable: flow.executable,
+        connections: flow.connections,
+        startedAt: flow.startedAt,
+        durationMs: (flow.endedAt ?? Date.now()) - flow.startedAt
+      }
+    });
+  }
+
+  private async analyzeScreenCapture(capture: ScreenCaptureResult): Promise<void> {
     try {
       // Throttle analysis to avoid overwhelming the system
       const now = Date.now();
@@ -168,17 +413,42 @@ export class MonitoringService {
       this.lastAnalysisTime = now;
 
       // First check if this is an AI window we should monitor
-      const aiWindowInfo = this.aiWindowDetector.detectAIWindow(capture.activeWindow, '');
+      // A terminal running an AI CLI is identified by its processes, not by what is on screen
+      const terminalSession = this.terminalProcessDetector.findSessionForWindow(capture.window);
+      const resolvedUrl = terminalSession ? null : await this.browserUrlResolver.resolve(capture);
+      const aiWindowInfo: AIWindowInfo = terminalSession
+        ? { isAIWindow: true, platform: terminalSession.toolName, toolId: terminalSession.tool, appName: terminalSession.terminalApp }
+        : this.aiWindowDetector.detectAIWindow(capture.activeWindow, '', resolvedUrl?.url);
+      this.captureScheduler.setAIWindowFocused(aiWindowInfo.isAIWindow);
       
       if (!aiWindowInfo.isAIWindow) {
         this.logger.info(`Not an AI window, skipping analysis: ${capture.activeWindow}`);
         return;
       }
 
+      // A risky copy followed by focusing an AI tool is the moment before a paste
+      await this.checkClipboardRisk(aiWindowInfo.platform || capture.activeWindow);
+
+      if (!this.ocrService.isAvailable()) {
+        this.logger.debug(`OCR unavailable, skipping screen analysis: ${capture.activeWindow}`);
+        return;
+      }
+
+      // Unchanged frames would only reproduce the previous analysis
+      const windowKey = capture.window?.windowId || capture.activeWindow;
+      const change = this.detectFrameChange(windowKey, capture);
+      if (change && !change.changed) {
+        this.logger.debug(`Window unchanged, skipping OCR: ${capture.activeWindow}`);
+        return;
+      }
+
       this.logger.info(`Analyzing AI window: ${aiWindowInfo.platform} - ${capture.activeWindow}`);
 
       // Extract text from screen capture using OCR
-      const ocrResult = await this.ocrService.extractText(capture);
+      const ocrResult = await this.extractChangedText(windowKey, capture, change);
+      if (capture.fingerprint) {
+        this.frameChangeDetector.remember(windowKey, capture.fingerprint);
+      }
       
       this.logger.info(`OCR extracted ${ocrResult.text.length} characters of text`);
       
@@ -188,19 +458,35 @@ export class MonitoringService {
         return;
       }
 
+      // Chat layouts tell the user's draft and turns apart from the AI's answers and the page around them
+      const frame = capture.region
+        ? { width: Math.round(capture.region.width * capture.scale), height: Math.round(capture.region.height * capture.scale) }
+        : null;
+      const conversation = segmentChatText(ocrResult.regions, aiWindowInfo.toolId, frame);
+      const text = conversation ? conversation.text : ocrResult.text;
+
       // Analyze content for risks and opportunities
-      const analysis = await this.contentAnalyzer.analyzeContent(capture, ocrResult.text);
+      const analysis = await this.contentAnalyzer.analyzeContent(capture, text, { toolId: aiWindowInfo.toolId, conversation });
       
       this.logger.info(`Analysis complete - Risk: ${analysis.riskLevel}, AI Tool: ${analysis.aiToolDetected}, Prompt Quality: ${analysis.promptQuality}`);
       
       // Record the analysis
-      await this.recordAnalysis(analysis, ocrResult);
+      await this.recordAnalysis(analysis, text, ocrResult.confidence);
+
+      // Policy violations take precedence over risk and coaching notifications
+      const policyEvaluation = await this.checkPolicyCompliance(analysis);
+      if (policyEvaluation.decision !== 'allow') {
+        if (this.canShowNotification()) {
+          await this.handlePolicyViolation(policyEvaluation, this.buildSafePrompt(analysis, text, conversation));
+        }
+        return;
+      }
       
       // Check if we should show a notification
       const shouldNotify = this.aiWindowDetector.shouldShowNotification(aiWindowInfo, analysis);
       
       if (shouldNotify && this.canShowNotification()) {
-        await this.handleAnalysisResults(analysis);
+        await this.handleAnalysisResults(analysis, this.buildSafePrompt(analysis, text, conversation));
       }
       
     } catch (error) {
@@ -208,6 +494,114 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Runs prompt, paste and upload events from the companion extension
+   * through the same analysis as OCR text. Drafts are only evaluated so the
+   * extension can warn before submit; everything else is recorded.
+   */
+  public async handleExtensionEvent(event: ExtensionContentEvent): Promise<ExtensionVerdict> {
+    const verdict: ExtensionVerdict = {
+      type: 'verdict',
+      id: event.id,
+      decision: 'allow',
+      riskLevel: 'low',
+      sensitiveDataTypes: [],
+      message: null
+    };
+
+    const text = event.type === 'upload'
+      ? event.files.map(file => [file.name, file.text].filter(Boolean).join('\n')).join('\n\n')
+      : event.text;
+
+    if (!this.isActive || !text.trim()) {
+      return verdict;
+    }
+
+    const isDraft = event.type === 'prompt' && !event.submitted;
+    const analysis = await this.contentAnalyzer.analyzeContent({ activeWindow: event.url }, text, {
+      syncToDashboard: !isDraft,
+      toolId: this.toolRegistry.getCatalog().matchUrl(event.url)?.id
+    });
+
+    let evaluation: PolicyEvaluation;
+    if (isDraft) {
+      // Drafts arrive on every pause in typing, so they never create alerts
+      evaluation = this.policyEngine.evaluate(analysis, {
+        role: this.configService.get<string | null>('enterprise.userRole', null)
+      });
+    } else {
+      await this.recordAnalysis(analysis, text);
+      evaluation = await this.checkPolicyCompliance(analysis);
+    }
+
+    verdict.riskLevel = analysis.riskLevel;
+    verdict.sensitiveDataTypes = analysis.sensitiveDataTypes;
+
+    if (evaluation.decision !== 'allow') {
+      const violation = evaluation.violations[0];
+      verdict.decision = evaluation.decision;
+      verdict.message = `${violation.policyName}: ${violation.reason}`;
+    } else if (analysis.riskLevel === 'high' || analysis.riskLevel === 'critical') {
+      verdict.decision = 'warn';
+      verdict.message = `Sensitive data detected: ${analysis.sensitiveDataTypes.join(', ')}`;
+    }
+
+    this.logger.info(`Extension ${event.type} event: ${verdict.decision} (risk ${analysis.riskLevel})`);
+    return verdict;
+  }
+
+  private detectFrameChange(windowKey: string, capture: ScreenCaptureResult): FrameChange | null {
+    if (!capture.fingerprint || !this.configService.get<boolean>('monitoring.changeDetection', true)) {
+      return null;
+    }
+    return this.frameChangeDetector.compare(windowKey, capture.fingerprint);
+  }
+
+  /**
+   * Re-reads only the dirty regions when the previous pass covered the same
+   * window, keeping the earlier words outside those regions.
+   */
+  private async extractChangedText(
+    windowKey: string,
+    capture: ScreenCaptureResult,
+    change: FrameChange | null
+  ): Promise<OCRResult> {
+    const previous = this.lastOCR?.windowKey === windowKey ? this.lastOCR.result : null;
+    let result: OCRResult;
+
+    if (previous && change?.reason === 'content' && change.changedFraction <= MAX_PARTIAL_OCR_FRACTION) {
+      const fresh = await this.ocrService.extractWordsFromRegions(capture.imageData, change.dirtyRegions);
+      const kept = previous.regions.filter(word =>
+        !change.dirtyRegions.some(region => this.overlaps(word.bbox, region))
+      );
+      const regions = [...kept, ...fresh];
+
+      result = {
+        text: this.ocrService.composeText(regions),
+        confidence: this.averageConfidence(regions),
+        timestamp: capture.timestamp,
+        regions
+      };
+      this.logger.debug(`Re-read ${change.dirtyRegions.length} changed region(s), ${fresh.length} word(s)`);
+    } else {
+      result = await this.ocrService.extractText(capture);
+    }
+
+    this.lastOCR = { windowKey, result };
+    return result;
+  }
+
+  private overlaps(a: WindowBounds, b: WindowBounds): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
+  private averageConfidence(regions: TextRegion[]): number {
+    if (regions.length === 0) {
+      return 0;
+    }
+    return regions.reduce((sum, region) => sum + region.confidence, 0) / regions.length;
+  }
+
   private async getActiveWindowInfo(): Promise<any> {
     try {
       // Get screen sources to identify active applications
@@ -223,9 +617,7 @@ export class MonitoringService {
                name.includes('firefox') || 
                name.includes('safari') || 
                name.includes('edge') ||
-               name.includes('chatgpt') ||
-               name.includes('claude') ||
-               name.includes('copilot');
+               this.toolRegistry.getCatalog().matchText(source.name) !== null;
       });
 
       return {
@@ -249,7 +641,7 @@ export class MonitoringService {
           `INSERT INTO ai_usage (user_id, ai_tool, usage_type, content_hash, tokens_used, cost_estimate, metadata) 
            VALUES (?, ?, ?, ?, ?, ?, ?)`,
           [
-            1, // TODO: Use actual user ID
+            await this.resolveUserId(),
             usage.tool,
             usage.type,
             usage.contentHash,
@@ -266,37 +658,60 @@ export class MonitoringService {
     }
   }
 
-  private async checkPolicyCompliance(usageData: any[]): Promise<void> {
+  private async checkPolicyCompliance(analysis: AnalysisResult): Promise<PolicyEvaluation> {
     try {
-      // TODO: Implement policy compliance checking
-      // This would check against organization policies and trigger alerts
-      
-      for (const usage of usageData) {
-        if (usage.hasPII) {
-          await this.createAlert('compliance', 'error', 'PII detected in AI conversation');
-        }
-        
-        if (usage.costEstimate > 10) {
-          await this.createAlert('cost', 'warning', 'High cost AI usage detected');
+      const evaluation = this.policyEngine.evaluate(analysis, {
+        role: this.configService.get<string | null>('enterprise.userRole', null)
+      });
+
+      const now = Date.now();
+      for (const violation of evaluation.violations) {
+        const key = [violation.policyId, violation.ruleId, analysis.aiToolDetected, violation.reason].join('|');
+        const lastAlertedAt = this.policyAlertTimes.get(key);
+        if (lastAlertedAt !== undefined && now - lastAlertedAt < POLICY_ALERT_COOLDOWN_MS) {
+          continue;
         }
+        this.policyAlertTimes.set(key, now);
+
+        await this.createAlert(
+          'policy_violation',
+          violation.action === 'block' ? 'error' : 'warning',
+          `${violation.policyName}: ${violation.reason}`
+        );
+      }
+
+      if (evaluation.decision !== 'allow') {
+        this.logger.info(`Policy decision for ${analysis.aiToolDetected}: ${evaluation.decision} (${evaluation.violations.length} violation(s))`);
       }
+
+      return evaluation;
     } catch (error) {
       this.logger.error('Failed to check policy compliance:', error);
+      return { decision: 'allow', violations: [] };
     }
   }
 
-  private async recordAnalysis(analysis: any, ocrResult: any): Promise<void> {
+  private async recordAnalysis(analysis: AnalysisResult, text: string, ocrConfidence?: number): Promise<void> {
     try {
+      const contentHash = this.generateContentHash(text);
+
+      await this.analysisRepository.save(analysis, {
+        userId: await this.resolveUserId(),
+        sessionId: this.currentSessionId,
+        contentHash,
+        ocrConfidence
+      });
+
       // Record AI usage if detected
       if (analysis.aiToolDetected) {
         await this.databaseService.run(
           `INSERT INTO ai_usage (user_id, ai_tool, usage_type, content_hash, metadata) 
            VALUES (?, ?, ?, ?, ?)`,
           [
-            1, // TODO: Use actual user ID
+            await this.resolveUserId(),
             analysis.aiToolDetected,
             'screen_detected',
-            this.generateContentHash(ocrResult.text),
+            contentHash,
             JSON.stringify({
               riskLevel: analysis.riskLevel,
               promptQuality: analysis.promptQuality,
@@ -320,7 +735,30 @@ export class MonitoringService {
     }
   }
 
-  private async handleAnalysisResults(analysis: any): Promise<void> {
+  /**
+   * Rewrites the prompt the user is about to send with placeholders in
+   * place of sensitive values: the draft when the chat layout is known,
+   * otherwise all of the text. Null when nothing needed redacting.
+   */
+  private buildSafePrompt(analysis: AnalysisResult, text: string, conversation: SegmentedConversation | null): string | null {
+    const spans = conversation
+      ? conversation.segments.filter(segment => segment.role === 'input')
+      : [{ start: 0, end: text.length }];
+
+    let redacted = 0;
+    const parts = spans.map(span => {
+      const findings = analysis.findings
+        .filter(finding => finding.start >= span.start && finding.end <= span.end)
+        .map(finding => ({ ...finding, start: finding.start - span.start, end: finding.end - span.start }));
+      const result = this.redactionVault.redact(text.substring(span.start, span.end), findings);
+      redacted += result.entries.length;
+      return result.text;
+    });
+
+    return redacted > 0 ? parts.join('\n') : null;
+  }
+
+  private async handleAnalysisResults(analysis: any, safePrompt: string | null = null): Promise<void> {
     try {
       const prefs = this.notificationSettings.getPreferences();
       const frequencyMultiplier = this.notificationSettings.getFrequencyMultiplier();
@@ -333,14 +771,17 @@ export class MonitoringService {
         await this.notificationService.showNotification({
           type: 'error',
           title: '🚨 Critical Security Risk',
-          message: `You're about to share sensitive data (${analysis.sensitiveDataTypes.join(', ')}) with an AI service. This could violate privacy policies.`,
+          message: `You're about to share sensitive data (${analysis.sensitiveDataTypes.join(', ')}) with an AI service. This could violate privacy policies.` +
+            (safePrompt ? ' Copy a safe version that uses placeholders instead.' : ''),
           suggestions: analysis.suggestions,
           position: prefs.position,
           duration: -1, // Don't auto-dismiss critical alerts
-          actions: [
-            { label: 'Remove Sensitive Data', action: 'remove_sensitive', primary: true },
-            { label: 'I Understand the Risk', action: 'dismiss' }
-          ]
+          actions: safePrompt
+            ? [
+                { label: 'Copy Safe Version', action: 'remove_sensitive', primary: true, data: safePrompt },
+                { label: 'I Understand the Risk', action: 'dismiss' }
+              ]
+            : [{ label: 'I Understand the Risk', action: 'dismiss', primary: true }]
         });
         return;
       }
@@ -353,10 +794,16 @@ export class MonitoringService {
           message: 'Sensitive information detected in your AI conversation.',
           suggestions: analysis.suggestions,
           position: prefs.position,
-          actions: [
-            { label: 'View Details', action: 'view_details', primary: true },
-            { label: 'Dismiss', action: 'dismiss' }
-          ]
+          actions: safePrompt
+            ? [
+                { label: 'Copy Safe Version', action: 'remove_sensitive', primary: true, data: safePrompt },
+                { label: 'View Details', action: 'view_details' },
+                { label: 'Dismiss', action: 'dismiss' }
+              ]
+            : [
+                { label: 'View Details', action: 'view_details', primary: true },
+                { label: 'Dismiss', action: 'dismiss' }
+              ]
         });
         return;
       }
@@ -403,6 +850,76 @@ export class MonitoringService {
     }
   }
 
+  private async checkClipboardRisk(platform: string): Promise<void> {
+    try {
+      const risk = this.clipboardMonitor.takeRiskForPlatform(platform);
+      if (!risk) {
+        return;
+      }
+
+      const source = risk.kind === 'image' ? 'copied image' : 'clipboard';
+      await this.createAlert(
+        'clipboard_risk',
+        risk.maxSeverity,
+        `Sensitive ${source} (${risk.types.join(', ')}) while ${platform} was focused`
+      );
+
+      // The alert is kept either way; the warning obeys the same switch and throttle as every other
+      const prefs = this.notificationSettings.getPreferences();
+      if (!prefs.securityWarnings || !this.canShowNotification()) {
+        return;
+      }
+
+      this.lastNotificationTime = Date.now();
+      await this.notificationService.showNotification({
+        type: risk.maxSeverity === 'critical' ? 'error' : 'warning',
+        title: 'Check Your Clipboard Before Pasting',
+        message: `Your ${source} contains ${risk.types.join(', ')}. Pasting it into ${platform} would share it.`,
+        position: prefs.position,
+        actions: [
+          { label: 'Clear Clipboard', action: 'clear_clipboard', primary: true },
+          { label: 'Dismiss', action: 'dismiss' }
+        ]
+      });
+    } catch (error) {
+      this.logger.error('Failed to check clipboard risk:', error);
+    }
+  }
+
+  private async handlePolicyViolation(evaluation: PolicyEvaluation, safePrompt: string | null = null): Promise<void> {
+    try {
+      const prefs = this.notificationSettings.getPreferences();
+      const blocked = evaluation.decision === 'block';
+      const reasons = Array.from(new Set(evaluation.violations.map(violation => violation.reason)));
+      const redactable = evaluation.violations
+        .filter(violation => violation.action === 'block')
+        .every(violation => REDACTABLE_RULE_KINDS.includes(violation.ruleKind));
+
+      this.lastNotificationTime = Date.now();
+
+      await this.notificationService.showNotification({
+        type: blocked ? 'error' : 'warning',
+        title: blocked ? '⛔ Blocked by Company Policy' : 'Company Policy Warning',
+        message: reasons.join(' '),
+        position: prefs.position,
+        duration: blocked ? -1 : undefined,
+        actions: blocked
+          ? safePrompt && redactable
+            ? [
+                { label: 'Copy Safe Version', action: 'remove_sensitive', primary: true, data: safePrompt },
+                { label: 'Dismiss', action: 'dismiss' }
+              ]
+            : [{ label: 'Dismiss', action: 'dismiss', primary: true }]
+          : [
+              { label: 'View Details', action: 'view_details', primary: true },
+              { label: 'Dismiss', action: 'dismiss' }
+            ]
+      });
+    } catch (error) {
+      this.logger.error('Failed to handle policy violation:', error);
+    }
+  }
+
   private isLibraryWorthy(analysis: any): boolean {
     // Simple heuristics for detecting potentially shareable AI-generated content
     const keywords = ['app', 'function', 'script', 'tool', 'solution', 'feature', 'algorithm'];
@@ -438,11 +955,38 @@ export class MonitoringService {
     return prefs.enabled;
   }
 
+  /**
+   * The users row activity is recorded under: the one for the configured
+   * enterprise email, created on first use, or the local user when no
+   * email is set. Looked up once per email.
+   */
+  private async resolveUserId(): Promise<number> {
+    if (this.userId !== null) {
+      return this.userId;
+    }
+
+    const email = this.configService.get<string | null>('enterprise.userEmail', null);
+    if (!email) {
+      this.userId = LOCAL_USER_ID;
+      return LOCAL_USER_ID;
+    }
+
+    const role = this.configService.get<string | null>('enterprise.userRole', null) || 'user';
+    await this.databaseService.run(
+      'INSERT OR IGNORE INTO users (email, name, role) VALUES (?, ?, ?)',
+      [email, email.split('@')[0], role]
+    );
+    const row = await this.databaseService.get('SELECT id FROM users WHERE email = ?', [email]);
+    const userId: number = row?.id ?? LOCAL_USER_ID;
+    this.userId = userId;
+    return userId;
+  }
+
   private async createAlert(type: string, severity: string, message: string): Promise<void> {
     try {
       await this.databaseService.run(
         'INSERT INTO alerts (user_id, type, severity, message) VALUES (?, ?, ?, ?)',
-        [1, type, severity, message] // TODO: Use actual user ID
+        [await this.resolveUserId(), type, severity, message]
       );
       
       this.logger.info(`Created alert: ${type} - ${message}`);
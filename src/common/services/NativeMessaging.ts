@@ -0,0 +1,62 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// Name browsers look up in their NativeMessagingHosts registry
+export const NATIVE_HOST_NAME = 'com.dam.desktop';
+
+// Browsers cap host-to-extension messages at 1 MB; prompts rarely come close
+export const MAX_NATIVE_MESSAGE_BYTES = 1024 * 1024;
+
+/**
+ * WebExtensions native messaging frames every JSON message with a 32-bit
+ * length in native byte order. Every platform browsers ship on is
+ * little-endian, so the length is always written as LE.
+ */
+export function encodeNativeMessage(message: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  if (body.length > MAX_NATIVE_MESSAGE_BYTES) {
+    throw new Error(`Native message of ${body.length} bytes exceeds the ${MAX_NATIVE_MESSAGE_BYTES} byte limit`);
+  }
+
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(body.length, 0);
+  return Buffer.concat([header, body]);
+}
+
+// Collects stream chunks and yields each complete message; a frame may span many chunks
+export class NativeMessageReader {
+  private buffered: Buffer = Buffer.alloc(0);
+
+  public push(chunk: Buffer): unknown[] {
+    this.buffered = this.buffered.length === 0 ? chunk : Buffer.concat([this.buffered, chunk]);
+    const messages: unknown[] = [];
+
+    while (this.buffered.length >= 4) {
+      const length = this.buffered.readUInt32LE(0);
+      if (length > MAX_NATIVE_MESSAGE_BYTES) {
+        throw new Error(`Native message of ${length} bytes exceeds the ${MAX_NATIVE_MESSAGE_BYTES} byte limit`);
+      }
+      if (this.buffered.length < 4 + length) {
+        break;
+      }
+
+      const body = this.buffered.subarray(4, 4 + length).toString('utf8');
+      this.buffered = this.buffered.subarray(4 + length);
+      messages.push(JSON.parse(body));
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * The browser-launched host relays frames to the running app over this
+ * socket. Windows uses a per-user named pipe, elsewhere a socket file in the
+ * app's data directory that only the user can open.
+ */
+export function getBridgeSocketPath(userDataDir: string): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\dam-desktop-extension-${os.userInfo().username}`;
+  }
+  return path.join(userDataDir, 'extension-bridge.sock');
+}
\ No newline at end of file
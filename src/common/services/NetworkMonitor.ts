@@ -0,0 +1,422 @@
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { parseProcStat } from './TerminalProcessDetector';
+import { AIToolRegistry } from './AIToolRegistry';
+
+export interface AIEndpoint {
+  host: string;
+  tool: string; // Canonical catalog id
+  toolName: string;
+}
+
+export interface ProcNetConnection {
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: number;
+  uid: number;
+  inode: number;
+}
+
+/**
+ * Traffic from one process to one AI tool's API. Keep-alive connections come
+ * and go, so a flow only ends after the process has stayed disconnected for
+ * a grace period.
+ */
+export interface NetworkAIFlow {
+  id: string; // "<tool>:<pid>"
+  tool: string;
+  toolName: string;
+  host: string;
+  pid: number;
+  processName: string;
+  executable: string | null;
+  remoteAddress: string;
+  connections: number; // Distinct connections seen over the flow's life
+  startedAt: number;
+  lastSeenAt: number;
+  endedAt: number | null;
+}
+
+export interface NetworkFlowChange {
+  type: 'started' | 'ended';
+  flow: NetworkAIFlow;
+}
+
+// Socket inodes let a flow count each connection once across polls
+type TrackedFlow = NetworkAIFlow & { inodes: Set<number> };
+
+const POLL_INTERVAL_MS = 5000;
+const RESOLVE_INTERVAL_MS = 5 * 60 * 1000;
+const FLOW_IDLE_MS = 60 * 1000;
+const TCP_ESTABLISHED = 0x01;
+const MAX_ANCESTRY_DEPTH = 32;
+
+/**
+ * Decodes an address from /proc/net/tcp{,6}: hex in host byte order, per
+ * 32-bit word for IPv6. IPv4-mapped IPv6 addresses come back as plain IPv4
+ * so they compare equal to resolver answers.
+ */
+export function decodeProcAddress(hex: string): string {
+  const words: Buffer[] = [];
+  for (let offset = 0; offset < hex.length; offset += 8) {
+    const word = Buffer.from(hex.slice(offset, offset + 8), 'hex');
+    words.push(word.reverse());
+  }
+  const bytes = Buffer.concat(words);
+
+  if (bytes.length === 4) {
+    return Array.from(bytes).join('.');
+  }
+  if (bytes.subarray(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return Array.from(bytes.subarray(12)).join('.');
+  }
+  return normalizeAddress(Array.from({ length: 8 }, (_, index) => bytes.readUInt16BE(index * 2).toString(16)).join(':'));
+}
+
+// Expands IPv6 to eight lowercase groups so textual forms from different sources compare equal
+export function normalizeAddress(address: string): string {
+  if (!address.includes(':')) {
+    return address;
+  }
+
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return mapped[1];
+  }
+
+  const [head, tail = ''] = address.toLowerCase().split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = address.includes('::') ? 8 - headGroups.length - tailGroups.length : 0;
+  return [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+    .map(group => parseInt(group, 16).toString(16))
+    .join(':');
+}
+
+export function parseProcNetTcp(content: string): ProcNetConnection[] {
+  const connections: ProcNetConnection[] = [];
+
+  for (const line of content.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10) continue;
+
+    const [localHex, localPortHex] = fields[1].split(':');
+    const [remoteHex, remotePortHex] = fields[2].split(':');
+    connections.push({
+      localAddress: decodeProcAddress(localHex),
+      localPort: parseInt(localPortHex, 16),
+      remoteAddress: decodeProcAddress(remoteHex),
+      remotePort: parseInt(remotePortHex, 16),
+      state: parseInt(fields[3], 16),
+      uid: Number(fields[7]),
+      inode: Number(fields[9])
+    });
+  }
+
+  return connections;
+}
+
+export class NetworkMonitor {
+  private static instance: NetworkMonitor;
+  private logger: Logger;
+  private configService: ConfigService;
+  private toolRegistry: AIToolRegistry;
+  private unsubscribeCatalog: (() => void) | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private resolveTimer: NodeJS.Timeout | null = null;
+  private endpointsByAddress = new Map<string, AIEndpoint>();
+  private socketOwners = new Map<number, number | null>(); // Socket inode to owning pid, null when not ours to see
+  private flows = new Map<string, TrackedFlow>();
+  private listeners: Array<(change: NetworkFlowChange) => void> = [];
+  private polling = false;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
+  }
+
+  public static getInstance(): NetworkMonitor {
+    if (!NetworkMonitor.instance) {
+      NetworkMonitor.instance = new NetworkMonitor();
+    }
+    return NetworkMonitor.instance;
+  }
+
+  public static isSupported(): boolean {
+    return process.platform === 'linux' && fs.existsSync('/proc/net/tcp');
+  }
+
+  public onFlowChange(listener: (change: NetworkFlowChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  public async start(): Promise<void> {
+    if (this.pollTimer || !this.configService.get<boolean>('monitoring.enableNetworkMonitoring', true)) {
+      return;
+    }
+    if (!NetworkMonitor.isSupported()) {
+      this.logger.info('Network monitoring needs /proc/net, not available on this platform');
+      return;
+    }
+
+    await this.resolveEndpoints();
+    this.resolveTimer = setInterval(() => this.resolveEndpoints(), RESOLVE_INTERVAL_MS);
+    // An admin adding an internal gateway should not have to wait for the next resolve
+    this.unsubscribeCatalog = this.toolRegistry.onChange(() => this.resolveEndpoints());
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+    this.logger.info(`Network monitor started, watching ${this.getEndpoints().length} AI endpoints`);
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Network monitor stopped');
+    }
+    if (this.resolveTimer) {
+      clearInterval(this.resolveTimer);
+      this.resolveTimer = null;
+    }
+    if (this.unsubscribeCatalog) {
+      this.unsubscribeCatalog();
+      this.unsubscribeCatalog = null;
+    }
+
+    const now = Date.now();
+    for (const flow of this.flows.values()) {
+      this.emit({ type: 'ended', flow: this.snapshot(flow, now) });
+    }
+    this.flows.clear();
+    this.socketOwners.clear();
+  }
+
+  public getActiveFlows(): NetworkAIFlow[] {
+    return Array.from(this.flows.values()).map(flow => this.snapshot(flow, null));
+  }
+
+  private getEndpoints(): AIEndpoint[] {
+    return this.toolRegistry.getCatalog().listApiHosts().map(({ host, tool }) => ({
+      host,
+      tool: tool.id,
+      toolName: tool.name
+    }));
+  }
+
+  /**
+   * Resolves every endpoint through the system resolver, the same path
+   * applications use, so the addresses match what they connect to. Shared
+   * CDN addresses can make another site on the same edge look like an AI
+   * endpoint; flows keep the host so such matches can be told apart.
+   */
+  private async resolveEndpoints(): Promise<void> {
+    const resolved = new Map<string, AIEndpoint>();
+
+    await Promise.all(this.getEndpoints().map(async endpoint => {
+      try {
+        const addresses = await dns.promises.lookup(endpoint.host, { all: true });
+        for (const { address } of addresses) {
+          resolved.set(normalizeAddress(address), endpoint);
+        }
+      } catch (error) {
+        this.logger.debug(`Could not resolve ${endpoint.host}:`, error);
+      }
+    }));
+
+    // Keep the previous answers when offline, connections may outlive DNS
+    if (resolved.size > 0) {
+      this.endpointsByAddress = resolved;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // A slow /proc sweep must not let polls pile up
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const matched = this.readConnections().filter(connection =>
+        connection.state === TCP_ESTABLISHED && this.endpointsByAddress.has(connection.remoteAddress));
+      await this.findSocketOwners(matched.map(connection => connection.inode));
+      if (!this.pollTimer) {
+        return; // Stopped during the sweep
+      }
+
+      const now = Date.now();
+      const started: TrackedFlow[] = [];
+
+      for (const connection of matched) {
+        const pid = this.socketOwners.get(connection.inode) ?? null;
+        if (pid === null || this.isOwnProcess(pid)) continue;
+
+        const endpoint = this.endpointsByAddress.get(connection.remoteAddress)!;
+        const id = `${endpoint.tool}:${pid}`;
+        let flow = this.flows.get(id);
+
+        if (!flow) {
+          flow = {
+            id,
+            tool: endpoint.tool,
+            toolName: endpoint.toolName,
+            host: endpoint.host,
+            pid,
+            ...this.describeProcess(pid),
+            remoteAddress: connection.remoteAddress,
+            connections: 0,
+            startedAt: now,
+            lastSeenAt: now,
+            endedAt: null,
+            inodes: new Set()
+          };
+          this.flows.set(id, flow);
+          started.push(flow);
+          this.logger.info(`${flow.processName} (pid ${pid}) connected to ${endpoint.host}`);
+        }
+
+        if (!flow.inodes.has(connection.inode)) {
+          flow.inodes.add(connection.inode);
+          flow.connections++;
+        }
+        flow.lastSeenAt = now;
+      }
+
+      // Announced after the loop so a new flow reports every connection it opened at once
+      for (const flow of started) {
+        this.emit({ type: 'started', flow: this.snapshot(flow, null) });
+      }
+
+      for (const [id, flow] of this.flows) {
+        if (now - flow.lastSeenAt > FLOW_IDLE_MS) {
+          this.flows.delete(id);
+          this.emit({ type: 'ended', flow: this.snapshot(flow, flow.lastSeenAt) });
+        }
+      }
+
+      // Closed sockets never come back, so their owners need not be remembered
+      const open = new Set(matched.map(connection => connection.inode));
+      for (const inode of this.socketOwners.keys()) {
+        if (!open.has(inode)) this.socketOwners.delete(inode);
+      }
+    } catch (error) {
+      this.logger.error('Failed to inspect network connections:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private readConnections(): ProcNetConnection[] {
+    const connections: ProcNetConnection[] = [];
+    for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+      try {
+        connections.push(...parseProcNetTcp(fs.readFileSync(file, 'utf8')));
+      } catch {
+        // tcp6 is missing when IPv6 is disabled
+      }
+    }
+    return connections;
+  }
+
+  /**
+   * Socket inodes only appear as /proc/<pid>/fd links, so finding owners
+   * means walking every process's descriptors. One asynchronous sweep per
+   * poll covers every AI connection not seen before, so the main process is
+   * never blocked, and it stops as soon as all of them are found.
+   */
+  private async findSocketOwners(inodes: number[]): Promise<void> {
+    const wanted = new Map<string, number>(); // Link target to inode
+    for (const inode of inodes) {
+      if (!this.socketOwners.has(inode)) wanted.set(`socket:[${inode}]`, inode);
+    }
+    if (wanted.size === 0) {
+      return;
+    }
+
+    for (const name of await fs.promises.readdir('/proc')) {
+      const pid = Number(name);
+      if (!Number.isInteger(pid)) continue;
+
+      try {
+        const fdDir = `/proc/${pid}/fd`;
+        const links = await Promise.all((await fs.promises.readdir(fdDir)).map(fd =>
+          fs.promises.readlink(path.join(fdDir, fd)).catch(() => null)));
+        for (const link of links) {
+          const inode = link === null ? undefined : wanted.get(link);
+          if (link === null || inode === undefined) continue;
+          this.socketOwners.set(inode, pid);
+          wanted.delete(link);
+        }
+      } catch {
+        // Other users' descriptors are not readable, or the process exited
+      }
+
+      if (wanted.size === 0) break;
+    }
+
+    // Sockets of other users' processes, or ones closed since the connection list was read
+    for (const inode of wanted.values()) {
+      this.socketOwners.set(inode, null);
+    }
+  }
+
+  // The app's own AI calls come from the main process or its network utility child
+  private isOwnProcess(pid: number): boolean {
+    let current: number | null = pid;
+    for (let depth = 0; current && depth < MAX_ANCESTRY_DEPTH; depth++) {
+      if (current === process.pid) {
+        return true;
+      }
+      try {
+        current = parseProcStat(fs.readFileSync(`/proc/${current}/stat`, 'utf8'))?.ppid ?? null;
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private describeProcess(pid: number): { processName: string; executable: string | null } {
+    let processName = `pid ${pid}`;
+    try {
+      processName = fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim() || processName;
+    } catch {
+      // Process already exited
+    }
+
+    return { processName, executable: this.readLink(`/proc/${pid}/exe`) };
+  }
+
+  private readLink(file: string): string | null {
+    try {
+      return fs.readlinkSync(file);
+    } catch {
+      return null;
+    }
+  }
+
+  private snapshot(flow: TrackedFlow, endedAt: number | null): NetworkAIFlow {
+    const copy: NetworkAIFlow & { inodes?: Set<number> } = { ...flow, endedAt };
+    delete copy.inodes;
+    return copy;
+  }
+
+  private emit(change: NetworkFlowChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error('Network flow listener failed:', error);
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { BrowserWindow, Notification, screen, ipcMain } from 'electron';
+import { BrowserWindow, Notification, screen, ipcMain, clipboard } from 'electron';
 import { Logger } from '../utils/Logger';
 import { Suggestion, LearningOpportunity } from './AIContentAnalyzer';
 import * as path from 'path';
@@ -27,6 +27,7 @@ export class NotificationService {
   private notificationWindow: BrowserWindow | null = null;
   private notificationQueue: NotificationOptions[] = [];
   private isShowingNotification = false;
+  private currentNotification: NotificationOptions | null = null;
 
   private constructor() {
     this.logger = Logger.getInstance();
@@ -42,7 +43,9 @@ export class NotificationService {
 
   private setupIPC(): void {
     ipcMain.handle('notification:action', async (event, action: string) => {
-      this.handleNotificationAction(action);
+      // The window only knows the action name; its payload stays in the main process
+      const data = this.currentNotification?.actions?.find(candidate => candidate.action === action)?.data;
+      this.handleNotificationAction(action, data);
     });
 
     ipcMain.handle('notification:dismiss', async () => {
@@ -73,11 +76,13 @@ export class NotificationService {
   private async processNotificationQueue(): Promise<void> {
     if (this.notificationQueue.length === 0) {
       this.isShowingNotification = false;
+      this.currentNotification = null;
       return;
     }
 
     this.isShowingNotification = true;
     const notification = this.notificationQueue.shift()!;
+    this.currentNotification = notification;
     
     await this.createNotificationWindow(notification);
   }
@@ -557,7 +562,8 @@ export class NotificationService {
   }
 
   private handleNotificationAction(action: string, data?: any): void {
-    this.logger.info(`Notification action triggered: ${action}`, data);
+    // The action's data is prompt text, which stays out of the logs
+    this.logger.info(`Notification action triggered: ${action}`);
     
     // Handle different actions
     switch (action) {
@@ -606,14 +612,33 @@ export class NotificationService {
         break;
         
       case 'remove_sensitive':
-        // Send message to main window to handle sensitive data removal
-        const window = BrowserWindow.getAllWindows().find(w => !w.isDestroyed() && w.webContents);
-        if (window) {
-          window.webContents.send('remove-sensitive-data');
+        if (data) {
+          // The redacted rewrite of the prompt, ready to paste instead
+          this.copyToClipboard(data);
+          setTimeout(() => {
+            this.showNotification({
+              type: 'success',
+              title: 'Safe Version Copied',
+              message: 'Paste it in place of your prompt. When the AI answers, copy its reply and press Ctrl/Cmd+Alt+R to put the real values back.',
+              duration: 6000,
+              position: 'bottom-right'
+            });
+          }, 500);
+        } else {
+          // Send message to main window to handle sensitive data removal
+          const window = BrowserWindow.getAllWindows().find(w => !w.isDestroyed() && w.webContents);
+          if (window) {
+            window.webContents.send('remove-sensitive-data');
+          }
         }
         this.dismissCurrentNotification();
         break;
         
+      case 'clear_clipboard':
+        clipboard.clear();
+        this.dismissCurrentNotification();
+        break;
+        
       // Legacy actions for backwards compatibility
       case 'copy_improved_prompt':
         this.copyToClipboard(data?.text || '');
@@ -1,6 +1,11 @@
 import { Logger } from '../utils/Logger';
 import { ScreenCaptureResult } from './ScreenCaptureService';
+import { ConfigService } from './ConfigService';
+import { groupTextLines } from '../utils/TextLayout';
+import { app } from 'electron';
 import * as Tesseract from 'tesseract.js';
+import * as path from 'path';
+import * as fs from 'fs';
 
 export interface OCRResult {
   text: string;
@@ -23,11 +28,24 @@ export interface TextRegion {
 export class OCRService {
   private static instance: OCRService;
   private logger: Logger;
-  private worker: Tesseract.Worker | null = null;
+  private configService: ConfigService;
+  private scheduler: Tesseract.Scheduler | null = null;
   private isInitialized = false;
+  private initializing: Promise<void> | null = null;
+  private restarting: Promise<void> = Promise.resolve();
+  private startupFailed = false;
+  private minWordConfidence = 0.6;
 
   private constructor() {
     this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+
+    // Languages and worker count are fixed per worker, so new settings need a new pool
+    this.configService.onDidChange('ocr', () => {
+      this.restarting = this.restarting
+        .then(() => this.restart())
+        .catch(error => this.logger.warn('OCR restart after a settings change failed:', error));
+    });
   }
 
   public static getInstance(): OCRService {
@@ -37,37 +55,130 @@ export class OCRService {
     return OCRService.instance;
   }
 
+  // False after workers failed to start, until the OCR settings change
+  public isAvailable(): boolean {
+    return !this.startupFailed;
+  }
+
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
       return;
     }
 
+    // Concurrent callers share the same worker start-up
+    if (!this.initializing) {
+      this.initializing = this.startWorkers().finally(() => {
+        this.initializing = null;
+      });
+    }
+
+    return this.initializing;
+  }
+
+  private async restart(): Promise<void> {
+    // A start-up in progress is let finish, or its workers would outlive the cleanup
+    await this.initializing?.catch(() => undefined);
+    this.startupFailed = false;
+
+    // A pool that never started is created with the new settings on the next scan
+    if (!this.isInitialized) {
+      return;
+    }
+
+    await this.cleanup();
+    await this.initialize();
+    this.logger.info('OCR service restarted with the new settings');
+  }
+
+  private async startWorkers(): Promise<void> {
     try {
-      // For now, we'll use a mock implementation
-      // In production, you'd use tesseract.js or another OCR library
+      const languages = this.configService.get<string[]>('ocr.languages', ['eng']);
+      const workerCount = Math.max(1, this.configService.get<number>('ocr.workerCount', 2));
+      const langPath = this.resolveLangPath();
+      this.minWordConfidence = this.configService.get<number>('ocr.minWordConfidence', 0.6);
+
+      // Language packs are read from disk only, so OCR never reaches the network
+      const gzip = this.verifyLanguagePacks(langPath, languages);
+
+      const scheduler = Tesseract.createScheduler();
+
+      try {
+        for (let i = 0; i < workerCount; i++) {
+          const worker = await Tesseract.createWorker(languages, Tesseract.OEM.LSTM_ONLY, {
+            langPath,
+            gzip,
+            cacheMethod: 'none',
+            errorHandler: (error) => this.logger.error('OCR worker error:', error)
+          });
+          await worker.setParameters({
+            tessedit_pageseg_mode: Tesseract.PSM.AUTO,
+            preserve_interword_spaces: '1'
+          });
+          scheduler.addWorker(worker);
+        }
+      } catch (error) {
+        await scheduler.terminate();
+        throw error;
+      }
+
+      this.scheduler = scheduler;
       this.isInitialized = true;
-      this.logger.info('OCR service initialized');
+      this.startupFailed = false;
+      this.logger.info(`OCR service initialized with ${workerCount} worker(s) for ${languages.join('+')} from ${langPath}`);
     } catch (error) {
+      this.startupFailed = true;
       this.logger.error('Failed to initialize OCR service:', error);
       throw error;
     }
   }
 
+  private resolveLangPath(): string {
+    const configured = this.configService.get<string | null>('ocr.langPath', null);
+    if (configured) {
+      return configured;
+    }
+
+    // Packaged builds ship the language packs as an extra resource outside the asar
+    return app.isPackaged
+      ? path.join(process.resourcesPath, 'tessdata')
+      : path.join(__dirname, '../../../assets/tessdata');
+  }
+
+  private verifyLanguagePacks(langPath: string, languages: string[]): boolean {
+    let gzip: boolean | null = null;
+
+    for (const lang of languages) {
+      const compressed = fs.existsSync(path.join(langPath, `${lang}.traineddata.gz`));
+      const plain = fs.existsSync(path.join(langPath, `${lang}.traineddata`));
+
+      if (!compressed && !plain) {
+        throw new Error(`Missing OCR language pack "${lang}.traineddata" in ${langPath}`);
+      }
+
+      const packIsGzip = !plain;
+      if (gzip !== null && gzip !== packIsGzip) {
+        throw new Error(`OCR language packs in ${langPath} mix gzipped and plain .traineddata files`);
+      }
+      gzip = packIsGzip;
+    }
+
+    return gzip ?? false;
+  }
+
   public async extractText(screenCapture: ScreenCaptureResult): Promise<OCRResult> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
-      // Mock implementation for now
-      // In production, this would process the actual image
-      const mockText = this.getMockTextForWindow(screenCapture.activeWindow);
-      
+      const image = this.decodeImage(screenCapture.imageData);
+      const result = await this.scheduler!.addJob('recognize', image, {}, { text: true, blocks: true });
+
       return {
-        text: mockText.text,
-        confidence: mockText.confidence,
+        text: result.data.text.trim(),
+        confidence: result.data.confidence / 100,
         timestamp: screenCapture.timestamp,
-        regions: mockText.regions
+        regions: this.extractWordRegions(result.data)
       };
     } catch (error) {
       this.logger.error('OCR extraction failed:', error);
@@ -75,126 +186,119 @@ export class OCRService {
     }
   }
 
-  private getMockTextForWindow(windowName: string): { text: string; confidence: number; regions: TextRegion[] } {
-    const windowLower = windowName.toLowerCase();
-    
-    console.log('OCR analyzing window:', windowName); // Debug log
-    
-    // Simulate different scenarios based on window name - expanded detection
-    if (windowLower.includes('claude') || 
-        windowLower.includes('anthropic') ||
-        windowLower.includes('chrome') ||
-        windowLower.includes('safari') ||
-        windowLower.includes('firefox') ||
-        windowLower.includes('browser') ||
-        windowLower.includes('chatgpt') ||
-        windowLower.includes('openai')) {
-      
-      // Randomly simulate different scenarios for testing - with more poor prompts
-      const scenarios = [
-        {
-          text: `Human: use this API key sk-9940284204i2232 to access the service claude.ai`,
-          confidence: 0.95
-        },
-        {
-          text: `Here's my OpenAI key: sk-proj-abcd1234567890 please help me integrate it chatgpt`,
-          confidence: 0.96
-        },
-        {
-          text: 'fix this code claude.ai',
-          confidence: 0.92
-        },
-        {
-          text: 'help chatgpt',
-          confidence: 0.89
-        },
-        {
-          text: 'what claude.ai',
-          confidence: 0.87
-        },
-        {
-          text: 'do this openai',
-          confidence: 0.88
-        },
-        {
-          text: 'make it work claude',
-          confidence: 0.90
-        },
-        {
-          text: 'why chatgpt',
-          confidence: 0.85
-        },
-        {
-          text: `How do I create a user authentication system?
-Please provide step-by-step instructions with examples and security best practices.`,
-          confidence: 0.94
-        },
-        {
-          text: `My customer data: 
-Name: Sarah Johnson
-SSN: 123-45-6789
-Credit Card: 4532-1234-5678-9012
-Email: sarah@company.com`,
-          confidence: 0.96
-        },
-        {
-          text: `Connect using: sk-1234567890abcdefghijklmnop and Bearer token xyz789`,
-          confidence: 0.97
+  public async extractTextFromRegion(
+    imageData: Buffer | string,
+    region: { x: number; y: number; width: number; height: number }
+  ): Promise<string> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const image = this.decodeImage(imageData);
+      const result = await this.scheduler!.addJob('recognize', image, {
+        rectangle: {
+          left: Math.round(region.x),
+          top: Math.round(region.y),
+          width: Math.round(region.width),
+          height: Math.round(region.height)
         }
-      ];
-      
-      const scenario = scenarios[Math.floor(Math.random() * scenarios.length)];
-      console.log('OCR detected text:', scenario.text.substring(0, 50) + '...'); // Debug log
-      
-      return {
-        text: scenario.text,
-        confidence: scenario.confidence,
-        regions: [
-          {
-            text: scenario.text.split('\n')[0],
-            confidence: scenario.confidence,
-            bbox: { x: 100, y: 200, width: 300, height: 30 }
+      });
+
+      return result.data.text.trim();
+    } catch (error) {
+      this.logger.error('OCR region extraction failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recognizes only the given areas of a capture and returns their words in
+   * full-image coordinates, so they can replace the stale words of a previous
+   * pass over the same window.
+   */
+  public async extractWordsFromRegions(
+    imageData: Buffer | string,
+    regions: Array<{ x: number; y: number; width: number; height: number }>
+  ): Promise<TextRegion[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const image = this.decodeImage(imageData);
+      const results = await Promise.all(regions.map(region =>
+        this.scheduler!.addJob('recognize', image, {
+          rectangle: {
+            left: Math.round(region.x),
+            top: Math.round(region.y),
+            width: Math.round(region.width),
+            height: Math.round(region.height)
           }
-        ]
-      };
+        }, { text: false, blocks: true })
+      ));
+
+      // Tesseract reports rectangle results in full-image coordinates
+      return results.flatMap(result => this.extractWordRegions(result.data));
+    } catch (error) {
+      this.logger.error('OCR region extraction failed:', error);
+      throw error;
     }
-    
-    // Default case - simulate poor prompts for testing
-    console.log('OCR no match for window:', windowName); // Debug log
-    const defaultScenarios = [
-      { text: 'fix', confidence: 0.8 },
-      { text: 'help me', confidence: 0.8 },
-      { text: 'what', confidence: 0.8 },
-      { text: 'do this', confidence: 0.8 },
-      { text: 'make it better', confidence: 0.8 }
-    ];
-    const defaultScenario = defaultScenarios[Math.floor(Math.random() * defaultScenarios.length)];
-    
-    return {
-      text: defaultScenario.text,
-      confidence: defaultScenario.confidence,
-      regions: [
-        {
-          text: defaultScenario.text,
-          confidence: defaultScenario.confidence,
-          bbox: { x: 100, y: 200, width: 300, height: 30 }
-        }
-      ]
-    };
   }
 
-  public async extractTextFromRegion(
-    imageData: string,
-    region: { x: number; y: number; width: number; height: number }
-  ): Promise<string> {
-    // Mock implementation
-    return 'Extracted text from region';
+  // Rebuilds reading-order text from word boxes
+  public composeText(regions: TextRegion[]): string {
+    return groupTextLines(regions).map(line => line.text).join('\n');
+  }
+
+  private decodeImage(imageData: Buffer | string): Buffer {
+    if (Buffer.isBuffer(imageData)) {
+      return imageData;
+    }
+
+    const match = imageData.match(/^data:image\/[a-z+]+;base64,(.*)$/i);
+    if (!match) {
+      throw new Error('Unsupported screen capture format, expected a PNG buffer or base64 data URL');
+    }
+    return Buffer.from(match[1], 'base64');
+  }
+
+  private extractWordRegions(page: Tesseract.Page): TextRegion[] {
+    const regions: TextRegion[] = [];
+
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            const text = word.text.trim();
+            const confidence = word.confidence / 100;
+            if (!text || confidence < this.minWordConfidence) {
+              continue;
+            }
+
+            regions.push({
+              text,
+              confidence,
+              bbox: {
+                x: word.bbox.x0,
+                y: word.bbox.y0,
+                width: word.bbox.x1 - word.bbox.x0,
+                height: word.bbox.y1 - word.bbox.y0
+              }
+            });
+          }
+        }
+      }
+    }
+
+    return regions;
   }
 
   public async cleanup(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
+    if (this.scheduler) {
+      // Terminating the scheduler also terminates every worker added to it
+      await this.scheduler.terminate();
+      this.scheduler = null;
     }
     this.isInitialized = false;
   }
@@ -1,3 +1,5 @@
+import { getBundledToolCatalog } from './AIToolCatalog';
+
 interface OpenAIMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -227,57 +229,17 @@ Return as a valid JSON array of objects.`;
   }
 
   private getFallbackCatalog(): any[] {
-    return [
-      {
-        name: "ChatGPT",
-        category: "Writing",
-        description: "Advanced conversational AI for writing, coding, and analysis",
-        features: ["Text generation", "Code assistance", "Analysis", "Creative writing"],
-        pricing: "Freemium",
-        url: "https://chat.openai.com",
-        tags: ["Recommended", "Popular"],
-        useCase: "General AI assistance and content creation"
-      },
-      {
-        name: "Claude",
-        category: "Writing",
-        description: "AI assistant focused on helpful, harmless, and honest interactions",
-        features: ["Long-form writing", "Analysis", "Code review", "Research"],
-        pricing: "Freemium",
-        url: "https://claude.ai",
-        tags: ["Recommended", "New"],
-        useCase: "In-depth analysis and professional writing"
-      },
-      {
-        name: "Midjourney",
-        category: "Design",
-        description: "AI image generation for creative and artistic purposes",
-        features: ["Image generation", "Artistic styles", "High quality", "Community"],
-        pricing: "$10/month",
-        url: "https://midjourney.com",
-        tags: ["Popular", "Creative"],
-        useCase: "Digital art and creative image generation"
-      },
-      {
-        name: "GitHub Copilot",
-        category: "Code",
-        description: "AI pair programmer that helps you write code faster",
-        features: ["Code completion", "Function generation", "Code explanation", "Multi-language"],
-        pricing: "$10/month",
-        url: "https://github.com/features/copilot",
-        tags: ["Recommended", "Developer"],
-        useCase: "Code assistance and development productivity"
-      },
-      {
-        name: "Notion AI",
-        category: "Productivity",
-        description: "AI-powered writing and productivity features in Notion",
-        features: ["Writing assistance", "Summarization", "Action items", "Brainstorming"],
-        pricing: "$10/month",
-        url: "https://notion.so/product/ai",
-        tags: ["Productivity", "Integration"],
-        useCase: "Enhanced note-taking and document creation"
-      }
-    ];
+    return getBundledToolCatalog().tools
+      .filter(tool => tool.description)
+      .map(tool => ({
+        name: tool.name,
+        category: tool.category,
+        description: tool.description,
+        features: tool.features || [],
+        pricing: tool.pricing?.plan || '',
+        url: tool.url,
+        tags: tool.tags || [],
+        useCase: tool.useCase
+      }));
   }
 }
\ No newline at end of file
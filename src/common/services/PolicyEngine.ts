@@ -0,0 +1,344 @@
+import { Logger } from '../utils/Logger';
+import { DatabaseService } from './DatabaseService';
+import { ConfigService } from './ConfigService';
+import { AnalysisResult, isUserFinding } from './AIContentAnalyzer';
+import { SEVERITY_RANK, FindingSeverity } from './SensitiveDataDetectors';
+import { AIToolRegistry } from './AIToolRegistry';
+
+export type PolicyDecision = 'allow' | 'warn' | 'block';
+
+export interface TimeWindow {
+  days?: number[]; // 0 = Sunday ... 6 = Saturday, all days when omitted
+  start: string; // HH:MM, local time
+  end: string; // HH:MM, local time; may be earlier than start to wrap past midnight
+}
+
+interface PolicyRuleBase {
+  id: string;
+  action: 'warn' | 'block';
+  message?: string;
+  roles?: string[]; // Only applies to these user roles when set
+}
+
+export interface AllowedToolsRule extends PolicyRuleBase {
+  kind: 'allowedTools';
+  tools: string[];
+}
+
+export interface BlockedToolsRule extends PolicyRuleBase {
+  kind: 'blockedTools';
+  tools: string[];
+}
+
+export interface ForbiddenDataTypesRule extends PolicyRuleBase {
+  kind: 'forbiddenDataTypes';
+  dataTypes: string[];
+  tools?: string[]; // All tools when omitted
+  minConfidence?: number;
+}
+
+export interface AllowedHoursRule extends PolicyRuleBase {
+  kind: 'allowedHours';
+  windows: TimeWindow[];
+  tools?: string[];
+}
+
+export interface MaxRiskLevelRule extends PolicyRuleBase {
+  kind: 'maxRiskLevel';
+  level: FindingSeverity;
+  tools?: string[];
+}
+
+export type PolicyRule =
+  | AllowedToolsRule
+  | BlockedToolsRule
+  | ForbiddenDataTypesRule
+  | AllowedHoursRule
+  | MaxRiskLevelRule;
+
+export interface Policy {
+  id: string;
+  name: string;
+  type: string;
+  source: 'local' | 'dashboard';
+  active: boolean;
+  rules: PolicyRule[];
+}
+
+export interface PolicyViolation {
+  policyId: string;
+  policyName: string;
+  ruleId: string;
+  ruleKind: PolicyRule['kind'];
+  action: 'warn' | 'block';
+  reason: string;
+}
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  violations: PolicyViolation[];
+}
+
+export interface PolicyContext {
+  role?: string | null;
+  now?: Date;
+}
+
+const DECISION_RANK: Record<PolicyDecision, number> = { allow: 0, warn: 1, block: 2 };
+
+export class PolicyEngine {
+  private static instance: PolicyEngine;
+  private logger: Logger;
+  private databaseService: DatabaseService;
+  private configService: ConfigService;
+  private toolRegistry: AIToolRegistry;
+  private localPolicies: Policy[] = [];
+  private remotePolicies: Policy[] = [];
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.databaseService = DatabaseService.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
+  }
+
+  public static getInstance(): PolicyEngine {
+    if (!PolicyEngine.instance) {
+      PolicyEngine.instance = new PolicyEngine();
+    }
+    return PolicyEngine.instance;
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      await this.reloadLocalPolicies();
+
+      // Dashboard policies are cached in config so they survive restarts while offline
+      const cached = this.configService.get<any[]>('policies.remote', []);
+      this.remotePolicies = this.parsePolicies(cached, 'dashboard');
+
+      this.logger.info(`Policy engine initialized with ${this.localPolicies.length} local and ${this.remotePolicies.length} dashboard policies`);
+    } catch (error) {
+      this.logger.error('Failed to initialize policy engine:', error);
+      throw error;
+    }
+  }
+
+  public async reloadLocalPolicies(): Promise<void> {
+    const rows = await this.databaseService.query(
+      'SELECT id, name, type, rules, active FROM policies WHERE active = 1'
+    );
+
+    this.localPolicies = this.parsePolicies(rows.map(row => ({
+      id: `local-${row.id}`,
+      name: row.name,
+      type: row.type,
+      active: !!row.active,
+      rules: this.parseJSON(row.rules, `policy ${row.id}`)
+    })), 'local');
+  }
+
+  public applyDashboardPolicies(policies: any[]): void {
+    this.remotePolicies = this.parsePolicies(policies, 'dashboard');
+    this.configService.set('policies.remote', policies);
+    this.logger.info(`Applied ${this.remotePolicies.length} dashboard policies`);
+  }
+
+  public getPolicies(): Policy[] {
+    return [...this.localPolicies, ...this.remotePolicies];
+  }
+
+  public evaluate(analysis: AnalysisResult, context: PolicyContext = {}): PolicyEvaluation {
+    const violations: PolicyViolation[] = [];
+    const now = context.now || new Date();
+    const role = context.role ? context.role.toLowerCase() : null;
+    const tool = analysis.aiToolDetected ? this.canonicalTool(analysis.aiToolDetected) : null;
+
+    // Policies only govern AI tool usage
+    if (!tool) {
+      return { decision: 'allow', violations };
+    }
+
+    for (const policy of this.getPolicies()) {
+      if (!policy.active) continue;
+
+      for (const rule of policy.rules) {
+        if (rule.roles && rule.roles.length > 0) {
+          if (!role || !rule.roles.some(r => r.toLowerCase() === role)) continue;
+        }
+
+        const reason = this.evaluateRule(rule, analysis, tool, now);
+        if (reason) {
+          violations.push({
+            policyId: policy.id,
+            policyName: policy.name,
+            ruleId: rule.id,
+            ruleKind: rule.kind,
+            action: rule.action,
+            reason: rule.message || reason
+          });
+        }
+      }
+    }
+
+    let decision: PolicyDecision = 'allow';
+    for (const violation of violations) {
+      if (DECISION_RANK[violation.action] > DECISION_RANK[decision]) {
+        decision = violation.action;
+      }
+    }
+
+    return { decision, violations };
+  }
+
+  private evaluateRule(rule: PolicyRule, analysis: AnalysisResult, tool: string, now: Date): string | null {
+    if ('tools' in rule && rule.kind !== 'allowedTools' && rule.kind !== 'blockedTools' && !this.matchesTool(rule.tools, tool)) {
+      return null;
+    }
+
+    switch (rule.kind) {
+      case 'allowedTools':
+        return this.matchesTool(rule.tools, tool) ? null : `${tool} is not an approved AI tool`;
+
+      case 'blockedTools':
+        return this.matchesTool(rule.tools, tool) ? `${tool} is blocked by policy` : null;
+
+      case 'forbiddenDataTypes': {
+        const minConfidence = rule.minConfidence ?? 0;
+        const forbidden = new Set(rule.dataTypes);
+        const found = analysis.findings
+          .filter(finding => isUserFinding(finding) && forbidden.has(finding.type) && finding.confidence >= minConfidence)
+          .map(finding => finding.type);
+        return found.length > 0
+          ? `${Array.from(new Set(found)).join(', ')} must not be shared with ${tool}`
+          : null;
+      }
+
+      case 'allowedHours':
+        return rule.windows.some(window => this.inTimeWindow(window, now))
+          ? null
+          : `${tool} use is not permitted at this time`;
+
+      case 'maxRiskLevel':
+        return SEVERITY_RANK[analysis.riskLevel] > SEVERITY_RANK[rule.level]
+          ? `${analysis.riskLevel} risk exceeds the ${rule.level} limit for ${tool}`
+          : null;
+
+      default:
+        return null;
+    }
+  }
+
+  private matchesTool(tools: string[] | undefined, tool: string): boolean {
+    if (!tools || tools.length === 0) return true;
+    return tools.some(t => this.canonicalTool(t) === tool);
+  }
+
+  // Policies may name a tool as "ChatGPT" or "chatgpt"; both mean the catalog id
+  private canonicalTool(name: string): string {
+    return this.toolRegistry.getCatalog().resolveId(name) ?? name.trim().toLowerCase();
+  }
+
+  private inTimeWindow(window: TimeWindow, now: Date): boolean {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = this.parseClock(window.start);
+    const end = this.parseClock(window.end);
+    const day = now.getDay();
+
+    if (start <= end) {
+      return (!window.days || window.days.includes(day)) && minutes >= start && minutes < end;
+    }
+
+    // Overnight windows belong to the day they start on
+    if (minutes >= start) {
+      return !window.days || window.days.includes(day);
+    }
+    const previousDay = (day + 6) % 7;
+    return minutes < end && (!window.days || window.days.includes(previousDay));
+  }
+
+  private parseClock(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  private parsePolicies(raw: any[], source: Policy['source']): Policy[] {
+    const policies: Policy[] = [];
+
+    for (const item of raw || []) {
+      if (!item || typeof item !== 'object' || !item.name) {
+        this.logger.warn(`Skipping malformed ${source} policy`);
+        continue;
+      }
+
+      const rawRules = typeof item.rules === 'string' ? this.parseJSON(item.rules, `policy ${item.name}`) : item.rules;
+      const rules = (Array.isArray(rawRules) ? rawRules : [])
+        .map((rule: any, index: number) => this.validateRule(rule, `${item.name}#${index}`))
+        .filter((rule): rule is PolicyRule => rule !== null);
+
+      policies.push({
+        id: String(item.id ?? item.name),
+        name: item.name,
+        type: item.type || 'ai_usage',
+        source,
+        active: item.active !== false,
+        rules
+      });
+    }
+
+    return policies;
+  }
+
+  private validateRule(rule: any, label: string): PolicyRule | null {
+    const isStringArray = (value: any) => Array.isArray(value) && value.every(v => typeof v === 'string');
+    const clock = /^([01]?\d|2[0-3]):[0-5]\d$/;
+    const isDayList = (value: any) => Array.isArray(value) && value.length > 0 && value.every(v => Number.isInteger(v) && v >= 0 && v <= 6);
+
+    if (!rule || typeof rule !== 'object' || !['warn', 'block'].includes(rule.action)) {
+      this.logger.warn(`Policy rule ${label} has no valid action`);
+      return null;
+    }
+    if (rule.roles !== undefined && !isStringArray(rule.roles)) {
+      this.logger.warn(`Policy rule ${label} has invalid roles`);
+      return null;
+    }
+    if (rule.tools !== undefined && !isStringArray(rule.tools)) {
+      this.logger.warn(`Policy rule ${label} has invalid tools`);
+      return null;
+    }
+
+    const base = { ...rule, id: String(rule.id ?? label) };
+
+    switch (rule.kind) {
+      case 'allowedTools':
+      case 'blockedTools':
+        if (isStringArray(rule.tools) && rule.tools.length > 0) return base;
+        break;
+      case 'forbiddenDataTypes':
+        if (isStringArray(rule.dataTypes) && rule.dataTypes.length > 0) return base;
+        break;
+      case 'allowedHours':
+        if (Array.isArray(rule.windows) && rule.windows.length > 0 &&
+            rule.windows.every((w: any) => w && clock.test(w.start) && clock.test(w.end) &&
+              (w.days === undefined || isDayList(w.days)))) {
+          return base;
+        }
+        break;
+      case 'maxRiskLevel':
+        if (Object.prototype.hasOwnProperty.call(SEVERITY_RANK, rule.level)) return base;
+        break;
+    }
+
+    this.logger.warn(`Skipping invalid policy rule ${label} (${rule.kind})`);
+    return null;
+  }
+
+  private parseJSON(value: string, label: string): any {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      this.logger.warn(`Invalid JSON rules in ${label}:`, error);
+      return [];
+    }
+  }
+}
\ No newline at end of file
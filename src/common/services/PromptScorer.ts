@@ -0,0 +1,303 @@
+export type PromptDimension = 'clarity' | 'specificity' | 'context' | 'goalOrientation';
+export type PromptVerdict = 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface DimensionScore {
+  score: number; // 0-1
+  graded: boolean; // False when no signal of the dimension works in the prompt's language
+  explanation: string; // What the prompt does well on this dimension, or what it lacks
+}
+
+export interface PromptScore {
+  verdict: PromptVerdict;
+  score: number; // Weighted mean of the dimension scores
+  dimensions: Record<PromptDimension, DimensionScore>;
+  script: PromptScript;
+  wordCount: number;
+}
+
+export type PromptScript = 'latin' | 'cyrillic' | 'han' | 'japanese' | 'hangul' | 'thai' | 'arabic' | 'other';
+
+interface Signal {
+  label: string; // Phrase completing "Has ..."
+  hint: string; // Phrase completing "Add ..."
+  weight: number;
+  anyLanguage?: boolean; // Also graded for prompts in other scripts
+  test: (prompt: PromptTokens) => boolean;
+}
+
+interface PromptTokens {
+  text: string;
+  words: string[]; // Lowercased word-like segments
+  sentences: number;
+}
+
+/**
+ * The dimensions every prompt is graded on. Weights add up to 1 and decide
+ * how much each dimension moves the overall score.
+ *
+ * - clarity: the prompt names a task, as an instruction or a question, in a
+ *   full sentence rather than a single word.
+ * - specificity: it pins the task down with concrete subjects, numbers,
+ *   quoted material or code, and constraints.
+ * - context: it says who is asking, for whom and why, or which role the AI
+ *   should take.
+ * - goalOrientation: it says what the result should be and in which form.
+ */
+export const PROMPT_DIMENSIONS: Record<PromptDimension, { label: string; weight: number }> = {
+  clarity: { label: 'Clarity', weight: 0.3 },
+  specificity: { label: 'Specificity', weight: 0.25 },
+  context: { label: 'Context', weight: 0.2 },
+  goalOrientation: { label: 'Goal orientation', weight: 0.25 }
+};
+
+// Lower bounds of the overall score for each verdict
+const VERDICT_THRESHOLDS: Array<[PromptVerdict, number]> = [
+  ['excellent', 0.7],
+  ['good', 0.5],
+  ['fair', 0.3],
+  ['poor', 0]
+];
+
+// Keyword cues are English; prompts in other scripts are graded on their structure alone
+const ACTION_VERBS = new Set([
+  'analyze', 'analyse', 'brainstorm', 'build', 'calculate', 'check', 'compare', 'convert', 'create', 'debug',
+  'describe', 'design', 'draft', 'edit', 'explain', 'find', 'fix', 'generate', 'give', 'help', 'improve', 'list',
+  'make', 'optimize', 'outline', 'plan', 'prepare', 'proofread', 'propose', 'recommend', 'refactor', 'review',
+  'rewrite', 'show', 'suggest', 'summarize', 'summarise', 'tell', 'test', 'translate', 'write'
+]);
+const QUESTION_WORDS = new Set(['what', 'how', 'why', 'when', 'where', 'who', 'which']);
+const CONCRETE_NOUNS = new Set([
+  'api', 'article', 'bug', 'chart', 'class', 'code', 'component', 'contract', 'css', 'csv', 'database', 'design', 'email',
+  'error', 'essay', 'excel', 'function', 'html', 'image', 'java', 'javascript', 'json', 'letter', 'logo', 'method', 'python',
+  'query', 'react', 'report', 'script', 'slide', 'spreadsheet', 'sql', 'story', 'table', 'test', 'typescript'
+]);
+const CONSTRAINT_WORDS = new Set([
+  'avoid', 'constraints', 'exactly', 'exclude', 'limit', 'max', 'maximum', 'min', 'minimum', 'must', 'only',
+  'require', 'requirements', 'should', 'specifications', 'without'
+]);
+const AUDIENCE_WORDS = new Set([
+  'audience', 'beginner', 'beginners', 'client', 'clients', 'customer', 'customers', 'developers', 'executives',
+  'expert', 'experts', 'manager', 'readers', 'stakeholders', 'students', 'team', 'user', 'users'
+]);
+const GOAL_WORDS = new Set(['achieve', 'goal', 'need', 'objective', 'outcome', 'result', 'want']);
+const DELIVERABLE_WORDS = new Set([
+  'compare', 'create', 'describe', 'draft', 'explain', 'generate', 'give', 'list', 'outline', 'output', 'produce',
+  'provide', 'return', 'review', 'summarize', 'summarise', 'write'
+]);
+const FORMAT_WORDS = new Set([
+  'bullet', 'bullets', 'example', 'examples', 'format', 'json', 'length', 'markdown', 'outline', 'paragraph',
+  'paragraphs', 'sentences', 'steps', 'structure', 'style', 'table', 'tone', 'words'
+]);
+
+const hasAny = (set: Set<string>) => (prompt: PromptTokens) => prompt.words.some(word => set.has(word));
+const matches = (pattern: RegExp) => (prompt: PromptTokens) => pattern.test(prompt.text);
+
+const SIGNALS: Record<PromptDimension, Signal[]> = {
+  clarity: [
+    {
+      label: 'a clear task',
+      hint: 'an instruction or question saying what you want done',
+      weight: 0.5,
+      anyLanguage: true, // A question mark reads the same in every language
+      test: prompt => /[?？]/.test(prompt.text) || hasAny(ACTION_VERBS)(prompt) || hasAny(QUESTION_WORDS)(prompt)
+    },
+    {
+      label: 'a full sentence',
+      hint: 'a full sentence instead of a keyword',
+      weight: 0.3,
+      anyLanguage: true,
+      test: prompt => prompt.words.length >= 4
+    },
+    {
+      label: 'enough detail to act on',
+      hint: 'a second sentence with the details',
+      weight: 0.2,
+      anyLanguage: true,
+      test: prompt => prompt.words.length >= 8 || prompt.sentences > 1
+    }
+  ],
+  specificity: [
+    {
+      label: 'a concrete subject',
+      hint: 'the concrete thing to work on (the code, report, email...)',
+      weight: 0.3,
+      test: hasAny(CONCRETE_NOUNS)
+    },
+    {
+      label: 'constraints',
+      hint: 'constraints such as what to avoid or must include',
+      weight: 0.25,
+      test: prompt => hasAny(CONSTRAINT_WORDS)(prompt) || /\b(at (most|least)|don'?t|do not|no more than)\b/i.test(prompt.text)
+    },
+    {
+      label: 'quoted material or code',
+      hint: 'the material itself, quoted or pasted',
+      weight: 0.2,
+      anyLanguage: true,
+      test: matches(/```|`[^`]+`|"[^"]{3,}"|“[^”]{3,}”|«[^»]{3,}»|\n\s*(\d+[.)]|[-*•])\s/)
+    },
+    {
+      label: 'numbers',
+      hint: 'numbers such as sizes, counts or versions',
+      weight: 0.1,
+      anyLanguage: true,
+      test: matches(/\d|\b(two|three|four|five|six|seven|eight|nine|ten|dozen)\b/i)
+    },
+    { label: 'detail', hint: 'more detail', weight: 0.15, anyLanguage: true, test: prompt => prompt.words.length > 20 }
+  ],
+  context: [
+    {
+      label: 'background',
+      hint: 'background on your situation',
+      weight: 0.35,
+      test: matches(/\b(i'?m|i am|we are|we're|our|my|currently|working on|background|context|regarding|related to)\b/i)
+    },
+    { label: 'an audience', hint: 'who the result is for', weight: 0.25, test: hasAny(AUDIENCE_WORDS) },
+    {
+      label: 'a purpose',
+      hint: 'why you need it',
+      weight: 0.2,
+      test: matches(/\b(so that|in order to|because|since|the goal is|to help)\b/i)
+    },
+    {
+      label: 'a role for the AI',
+      hint: 'a role for the AI to take ("act as...")',
+      weight: 0.2,
+      test: matches(/\b(act as|you are an?|as an? (expert|senior|experienced)|persona|perspective|role)\b/i)
+    }
+  ],
+  goalOrientation: [
+    { label: 'a desired outcome', hint: 'the outcome you are after', weight: 0.3, test: hasAny(GOAL_WORDS) },
+    { label: 'a deliverable', hint: 'what to produce', weight: 0.3, test: hasAny(DELIVERABLE_WORDS) },
+    {
+      label: 'an output format',
+      hint: 'the format, length or tone of the answer',
+      weight: 0.4,
+      test: prompt => hasAny(FORMAT_WORDS)(prompt) || /step.?by.?step/i.test(prompt.text)
+    }
+  ]
+};
+
+/**
+ * Guesses the writing system from the letters used, which is what word
+ * segmentation depends on: Chinese, Japanese and Thai do not put spaces
+ * between words.
+ */
+export function detectScript(text: string): PromptScript {
+  // Any kana makes it Japanese, which also uses Han characters
+  if (/[\u3040-\u30ff]/.test(text)) {
+    return 'japanese';
+  }
+
+  const counts: Array<[PromptScript, RegExp]> = [
+    ['hangul', /[\uac00-\ud7af]/g],
+    ['han', /[\u4e00-\u9fff]/g],
+    ['thai', /[\u0e00-\u0e7f]/g],
+    ['cyrillic', /[\u0400-\u04ff]/g],
+    ['arabic', /[\u0600-\u06ff]/g],
+    ['latin', /[a-z\u00c0-\u024f]/gi]
+  ];
+
+  let best: PromptScript = 'other';
+  let bestCount = 0;
+  for (const [script, pattern] of counts) {
+    const count = (text.match(pattern) || []).length;
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+const SEGMENTER_LOCALES: Record<PromptScript, string> = {
+  latin: 'en',
+  cyrillic: 'ru',
+  han: 'zh',
+  japanese: 'ja',
+  hangul: 'ko',
+  thai: 'th',
+  arabic: 'ar',
+  other: 'en'
+};
+
+export function tokenizePrompt(text: string, script: PromptScript = detectScript(text)): PromptTokens {
+  const locale = SEGMENTER_LOCALES[script];
+  const words = Array.from(new Intl.Segmenter(locale, { granularity: 'word' }).segment(text))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment.toLowerCase());
+  const sentences = Array.from(new Intl.Segmenter(locale, { granularity: 'sentence' }).segment(text))
+    .filter(segment => segment.segment.trim().length > 0).length;
+
+  return { text, words, sentences };
+}
+
+/**
+ * Grades a prompt on every dimension and combines them into one verdict.
+ * Coaching notifications and the assistant both use this, so the same
+ * prompt gets the same verdict everywhere.
+ */
+export function scorePrompt(prompt: string): PromptScore {
+  const text = prompt.trim();
+  const script = detectScript(text);
+  const tokens = tokenizePrompt(text, script);
+  const englishCues = script === 'latin' || script === 'other';
+
+  const dimensions = {} as Record<PromptDimension, DimensionScore>;
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const dimension of Object.keys(PROMPT_DIMENSIONS) as PromptDimension[]) {
+    dimensions[dimension] = scoreDimension(SIGNALS[dimension].filter(signal => englishCues || signal.anyLanguage), tokens);
+    if (dimensions[dimension].graded) {
+      weighted += dimensions[dimension].score * PROMPT_DIMENSIONS[dimension].weight;
+      totalWeight += PROMPT_DIMENSIONS[dimension].weight;
+    }
+  }
+
+  // Dimensions that cannot be graded in the prompt's language do not count against it
+  const score = round(totalWeight > 0 ? weighted / totalWeight : 0);
+  let verdict = VERDICT_THRESHOLDS.find(([, threshold]) => score >= threshold)![0];
+  // A keyword or two is never a good prompt, however it is phrased
+  if (tokens.words.length <= 2) {
+    verdict = 'poor';
+  } else if (tokens.words.length < 6 && verdict !== 'poor') {
+    verdict = 'fair';
+  }
+
+  return { verdict, score, dimensions, script, wordCount: tokens.words.length };
+}
+
+// Scores are the share of the signals' weight the prompt shows
+function scoreDimension(signals: Signal[], tokens: PromptTokens): DimensionScore {
+  const available = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  if (available === 0) {
+    return { score: 0, graded: false, explanation: 'Not graded for prompts in this language.' };
+  }
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  let weight = 0;
+  for (const signal of signals) {
+    if (signal.test(tokens)) {
+      weight += signal.weight;
+      found.push(signal.label);
+    } else {
+      missing.push(signal.hint);
+    }
+  }
+
+  const score = round(Math.min(weight / available, 1));
+  const parts: string[] = [];
+  if (found.length > 0) parts.push(`Has ${joinList(found)}.`);
+  if (missing.length > 0 && score < 0.7) parts.push(`Add ${joinList(missing.slice(0, 2))}.`);
+
+  return { score, graded: true, explanation: parts.join(' ') };
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { SensitiveDataFinding } from './SensitiveDataDetectors';
+
+export interface RedactionEntry {
+  placeholder: string;
+  original: string;
+  type: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  entries: RedactionEntry[]; // One per replaced span, in text order
+}
+
+export interface RestoreResult {
+  text: string;
+  restored: number; // Placeholders replaced, counting repeats
+}
+
+// Returns the placeholder for a value, the same one each time the value repeats
+export type PlaceholderAssigner = (label: string, original: string) => string;
+
+// Below this a finding is too likely a false positive to rewrite the user's words
+export const MIN_REDACTION_CONFIDENCE = 0.5;
+
+// These match words that name a kind of data ("customer list", "revenue"), not the data itself
+const TOPIC_TYPES = new Set(['financialData', 'customerData']);
+
+// Matches start with the keyword that gave the value away; the keyword stays so the prompt still reads
+const KEYWORD_PREFIXED_TYPES = new Set(['password', 'apiKeyGeneral']);
+
+const TYPE_LABELS: Record<string, string> = {
+  ssn: 'SSN',
+  creditCard: 'CARD_NUMBER',
+  iban: 'IBAN',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  apiKeyGeneral: 'API_KEY',
+  password: 'PASSWORD',
+  apiKey: 'KEY',
+  connectionString: 'CONNECTION_STRING',
+  privateKey: 'PRIVATE_KEY',
+  jwt: 'JWT',
+  genericSecret: 'SECRET',
+  personName: 'PERSON',
+  postalAddress: 'ADDRESS'
+};
+
+export function shouldRedact(finding: SensitiveDataFinding): boolean {
+  return finding.confidence >= MIN_REDACTION_CONFIDENCE && !TOPIC_TYPES.has(finding.type);
+}
+
+/**
+ * Placeholder stem for a finding: AWS_KEY, CARD_NUMBER, PERSON.
+ * Provider keys carry the provider so the AI still knows what kind of
+ * credential the code handles.
+ */
+export function placeholderLabel(finding: SensitiveDataFinding): string {
+  const label = TYPE_LABELS[finding.type] || toUpperSnake(finding.type);
+  if (finding.type === 'apiKey' && finding.provider && finding.provider !== 'Unknown') {
+    return `${toUpperSnake(finding.provider)}_${label}`;
+  }
+  return label;
+}
+
+/**
+ * Replaces each redactable finding in `text` with a placeholder from
+ * `assign`. Findings may come in any order; one that overlaps a span
+ * already replaced is skipped, so the longer match wins.
+ */
+export function redactText(text: string, findings: SensitiveDataFinding[], assign: PlaceholderAssigner): RedactionResult {
+  const spans = findings
+    .filter(shouldRedact)
+    .map(valueSpan)
+    .filter(span => span.end > span.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const entries: RedactionEntry[] = [];
+  let redacted = '';
+  let cursor = 0;
+
+  for (const span of spans) {
+    if (span.start < cursor) continue;
+
+    const original = text.substring(span.start, span.end);
+    const placeholder = assign(placeholderLabel(span.finding), original);
+    redacted += text.substring(cursor, span.start) + placeholder;
+    entries.push({ placeholder, original, type: span.finding.type });
+    cursor = span.end;
+  }
+  redacted += text.substring(cursor);
+
+  return { text: redacted, entries };
+}
+
+/**
+ * Puts the original values back wherever the placeholders appear. Whole
+ * words only, so CUSTOMER_1 never rewrites the start of CUSTOMER_12.
+ */
+export function restorePlaceholders(text: string, originals: Map<string, string>): RestoreResult {
+  if (originals.size === 0) {
+    return { text, restored: 0 };
+  }
+
+  const placeholders = Array.from(originals.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`\\b(?:${placeholders.join('|')})\\b`, 'g');
+  let restored = 0;
+  const result = text.replace(pattern, placeholder => {
+    restored++;
+    return originals.get(placeholder) ?? placeholder;
+  });
+  return { text: result, restored };
+}
+
+function valueSpan(finding: SensitiveDataFinding): { finding: SensitiveDataFinding; start: number; end: number } {
+  if (!KEYWORD_PREFIXED_TYPES.has(finding.type)) {
+    return { finding, start: finding.start, end: finding.end };
+  }
+
+  const match = /^([a-z_-]+[:\s=]*['"]?)(.*?)['"]?$/i.exec(finding.value);
+  if (!match) {
+    return { finding, start: finding.start, end: finding.end };
+  }
+  const start = finding.start + match[1].length;
+  return { finding, start, end: start + match[2].length };
+}
+
+function toUpperSnake(value: string): string {
+  return value
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z\d]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
\ No newline at end of file
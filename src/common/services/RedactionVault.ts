@@ -0,0 +1,250 @@
+import { app, clipboard, safeStorage } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { SensitiveDataFinding } from './SensitiveDataDetectors';
+import { RedactionResult, RestoreResult, redactText, restorePlaceholders } from './RedactionEngine';
+
+export interface RedactionVaultStatus {
+  entries: number;
+  createdAt: number | null;
+  expiresAt: number | null;
+  persisted: boolean; // False without an OS key store; the vault then lives in memory only
+}
+
+interface VaultSession {
+  key: Buffer;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface VaultContents {
+  entries: Array<[string, string]>; // Placeholder, original
+}
+
+// The session key is wrapped by the OS key store, the mappings by the session key
+interface VaultFile {
+  version: number;
+  createdAt: number;
+  expiresAt: number;
+  key: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const VAULT_FILE = 'redaction-vault.json';
+const VAULT_FILE_VERSION = 1;
+const DEFAULT_TTL_MINUTES = 480;
+
+/**
+ * Remembers which original value each placeholder stands for, so a value
+ * keeps its placeholder across prompts and the AI's answer can be turned
+ * back into real names and keys. Mappings are written encrypted with a key
+ * made for the session and are wiped, key and all, when the session
+ * expires.
+ */
+export class RedactionVault {
+  private static instance: RedactionVault;
+  private logger: Logger;
+  private configService: ConfigService;
+  private session: VaultSession | null = null;
+  private loaded = false;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private placeholders = new Map<string, string>(); // "<label>\0<original>" -> placeholder
+  private originals = new Map<string, string>(); // placeholder -> original
+  private counters = new Map<string, number>(); // label -> last number handed out
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+  }
+
+  public static getInstance(): RedactionVault {
+    if (!RedactionVault.instance) {
+      RedactionVault.instance = new RedactionVault();
+    }
+    return RedactionVault.instance;
+  }
+
+  public redact(text: string, findings: SensitiveDataFinding[]): RedactionResult {
+    this.expireIfDue();
+    if (!this.session) {
+      this.startSession();
+    }
+
+    const known = this.originals.size;
+    const result = redactText(text, findings, (label, original) => this.placeholderFor(label, original));
+    if (this.originals.size > known) {
+      this.save();
+    }
+    if (result.entries.length > 0) {
+      this.logger.info(`Redacted ${result.entries.length} value(s) from prompt`);
+    }
+    return result;
+  }
+
+  public restore(text: string): RestoreResult {
+    this.expireIfDue();
+    return restorePlaceholders(text, this.originals);
+  }
+
+  // Swaps the placeholders in a copied AI answer for the real values, in place
+  public restoreClipboard(): RestoreResult {
+    const result = this.restore(clipboard.readText());
+    if (result.restored > 0) {
+      clipboard.writeText(result.text);
+      this.logger.info(`Restored ${result.restored} placeholder(s) in clipboard`);
+    }
+    return result;
+  }
+
+  public getStatus(): RedactionVaultStatus {
+    this.expireIfDue();
+    return {
+      entries: this.originals.size,
+      createdAt: this.session?.createdAt ?? null,
+      expiresAt: this.session?.expiresAt ?? null,
+      persisted: safeStorage.isEncryptionAvailable()
+    };
+  }
+
+  public clear(): void {
+    this.wipe();
+    this.logger.info('Redaction vault cleared');
+  }
+
+  private startSession(): void {
+    const ttlMinutes = this.configService.get<number>('redaction.vaultTtlMinutes', DEFAULT_TTL_MINUTES);
+    const createdAt = Date.now();
+    this.session = { key: crypto.randomBytes(32), createdAt, expiresAt: createdAt + ttlMinutes * 60000 };
+    this.scheduleExpiry();
+  }
+
+  private expireIfDue(): void {
+    // The file is read on first use, electron's key store is not ready at construction
+    if (!this.loaded) {
+      this.loaded = true;
+      this.load();
+    }
+    if (this.session && Date.now() >= this.session.expiresAt) {
+      this.wipe();
+      this.logger.info('Redaction vault session expired');
+    }
+  }
+
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+    }
+    if (this.session) {
+      this.expiryTimer = setTimeout(() => this.expireIfDue(), Math.max(0, this.session.expiresAt - Date.now()));
+      this.expiryTimer.unref();
+    }
+  }
+
+  private placeholderFor(label: string, original: string): string {
+    const existing = this.placeholders.get(`${label}\u0000${original}`);
+    if (existing) {
+      return existing;
+    }
+
+    const placeholder = `${label}_${(this.counters.get(label) || 0) + 1}`;
+    this.remember(placeholder, original);
+    return placeholder;
+  }
+
+  private remember(placeholder: string, original: string): void {
+    const [, label, number] = /^(.+)_(\d+)$/.exec(placeholder) || [];
+    if (!label) {
+      return;
+    }
+    this.placeholders.set(`${label}\u0000${original}`, placeholder);
+    this.originals.set(placeholder, original);
+    this.counters.set(label, Math.max(this.counters.get(label) || 0, Number(number)));
+  }
+
+  private load(): void {
+    const filePath = this.getFilePath();
+    try {
+      if (!fs.existsSync(filePath)) {
+        return;
+      }
+
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as VaultFile;
+      if (file.version !== VAULT_FILE_VERSION || Date.now() >= file.expiresAt || !safeStorage.isEncryptionAvailable()) {
+        this.deleteFile();
+        return;
+      }
+
+      const key = Buffer.from(safeStorage.decryptString(Buffer.from(file.key, 'base64')), 'base64');
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+
+      this.session = { key, createdAt: file.createdAt, expiresAt: file.expiresAt };
+      for (const [placeholder, original] of (JSON.parse(json) as VaultContents).entries) {
+        this.remember(placeholder, original);
+      }
+      this.scheduleExpiry();
+      this.logger.info(`Loaded redaction vault with ${this.originals.size} mapping(s)`);
+    } catch (error) {
+      // Mappings that cannot be decrypted are of no use to anyone
+      this.logger.error('Failed to load redaction vault:', error);
+      this.deleteFile();
+    }
+  }
+
+  private save(): void {
+    if (!this.session || !safeStorage.isEncryptionAvailable()) {
+      return;
+    }
+
+    try {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', this.session.key, iv);
+      const contents: VaultContents = { entries: Array.from(this.originals) };
+      const data = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+      const file: VaultFile = {
+        version: VAULT_FILE_VERSION,
+        createdAt: this.session.createdAt,
+        expiresAt: this.session.expiresAt,
+        key: safeStorage.encryptString(this.session.key.toString('base64')).toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+      };
+      fs.writeFileSync(this.getFilePath(), JSON.stringify(file), { mode: 0o600 });
+    } catch (error) {
+      this.logger.error('Failed to save redaction vault:', error);
+    }
+  }
+
+  private wipe(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    this.session?.key.fill(0);
+    this.session = null;
+    this.placeholders.clear();
+    this.originals.clear();
+    this.counters.clear();
+    this.deleteFile();
+  }
+
+  private deleteFile(): void {
+    try {
+      fs.rmSync(this.getFilePath(), { force: true });
+    } catch (error) {
+      this.logger.error('Failed to delete redaction vault:', error);
+    }
+  }
+
+  private getFilePath(): string {
+    return path.join(app.getPath('userData'), VAULT_FILE);
+  }
+}
\ No newline at end of file
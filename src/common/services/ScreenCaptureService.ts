@@ -1,24 +1,38 @@
-import { desktopCapturer, screen, BrowserWindow } from 'electron';
+import { desktopCapturer, screen, Display, NativeImage } from 'electron';
 import { Logger } from '../utils/Logger';
-import * as path from 'path';
+import { ActiveWindowInfo, ActiveWindowProvider, WindowBounds, createActiveWindowProvider } from './ActiveWindowProvider';
+import { FrameFingerprint, createFrameFingerprint, fingerprintGrid } from './FrameChangeDetector';
 import * as fs from 'fs';
 
 export interface ScreenCaptureResult {
   timestamp: number;
-  imageData: string;
-  activeWindow: string;
+  imageData: Buffer; // PNG of the focused window, or the whole display when bounds are unknown
+  activeWindow: string; // Title of the focused window
+  window: ActiveWindowInfo | null; // App name, PID, executable and bounds when known
+  region: WindowBounds | null; // Captured area in physical screen pixels
+  scale: number; // Image pixels per physical screen pixel, to map OCR boxes back
   screenId: string;
+  fingerprint: FrameFingerprint | null; // Luminance grid of imageData for change detection
 }
 
+// Tesseract reads best with ~20-30px glyphs; standard-DPI text is about half that
+const OCR_TARGET_SCALE_FACTOR = 2;
+const MAX_CAPTURE_PIXELS = 8 * 1024 * 1024;
+
 export class ScreenCaptureService {
   private static instance: ScreenCaptureService;
   private logger: Logger;
-  private captureInterval: NodeJS.Timeout | null = null;
+  private captureTimer: NodeJS.Timeout | null = null;
+  private captureDelay: (() => number | null) | null = null;
+  private lastCaptureAt = 0;
+  private captureInFlight = false;
   private isCapturing = false;
   private captureCallback: ((capture: ScreenCaptureResult) => void) | null = null;
+  private windowProvider: ActiveWindowProvider;
 
   private constructor() {
     this.logger = Logger.getInstance();
+    this.windowProvider = createActiveWindowProvider();
   }
 
   public static getInstance(): ScreenCaptureService {
@@ -28,7 +42,15 @@ export class ScreenCaptureService {
     return ScreenCaptureService.instance;
   }
 
-  public async startCapture(intervalMs: number = 5000, callback: (capture: ScreenCaptureResult) => void): Promise<void> {
+  /**
+   * Starts capturing with a fixed interval or a delay function that is asked
+   * again before every capture. A null delay pauses capturing until
+   * reschedule() is called.
+   */
+  public async startCapture(
+    interval: number | (() => number | null) = 5000,
+    callback: (capture: ScreenCaptureResult) => void
+  ): Promise<void> {
     if (this.isCapturing) {
       this.logger.warn('Screen capture already in progress');
       return;
@@ -36,16 +58,13 @@ export class ScreenCaptureService {
 
     this.isCapturing = true;
     this.captureCallback = callback;
+    this.captureDelay = typeof interval === 'number' ? () => interval : interval;
 
-    // Initial capture
-    await this.captureScreen();
-
-    // Set up interval for continuous capture
-    this.captureInterval = setInterval(async () => {
-      await this.captureScreen();
-    }, intervalMs);
+    // The first capture runs right away unless the delay says capturing is paused
+    this.lastCaptureAt = 0;
+    this.scheduleNextCapture();
 
-    this.logger.info(`Screen capture started with ${intervalMs}ms interval`);
+    this.logger.info(`Screen capture started${typeof interval === 'number' ? ` with ${interval}ms interval` : ' with adaptive interval'}`);
   }
 
   public stopCapture(): void {
@@ -53,44 +72,56 @@ export class ScreenCaptureService {
       return;
     }
 
-    if (this.captureInterval) {
-      clearInterval(this.captureInterval);
-      this.captureInterval = null;
+    if (this.captureTimer) {
+      clearTimeout(this.captureTimer);
+      this.captureTimer = null;
     }
 
     this.isCapturing = false;
     this.captureCallback = null;
+    this.captureDelay = null;
     this.logger.info('Screen capture stopped');
   }
 
-  private async captureScreen(): Promise<void> {
-    try {
-      const sources = await desktopCapturer.getSources({
-        types: ['screen'],
-        thumbnailSize: { width: 1920, height: 1080 }
-      });
+  // Re-reads the delay, so a faster interval takes effect without waiting out the old one
+  public reschedule(): void {
+    // An in-flight capture rearms the timer itself when it finishes
+    if (this.isCapturing && !this.captureInFlight) {
+      this.scheduleNextCapture();
+    }
+  }
 
-      if (sources.length === 0) {
-        this.logger.error('No screen sources available');
-        return;
-      }
+  private scheduleNextCapture(): void {
+    if (this.captureTimer) {
+      clearTimeout(this.captureTimer);
+      this.captureTimer = null;
+    }
 
-      // Capture the primary display
-      const primaryDisplay = screen.getPrimaryDisplay();
-      const source = sources[0];
+    const delay = this.captureDelay?.() ?? null;
+    if (!this.isCapturing || delay === null) {
+      return;
+    }
 
-      // Get active window information
-      const activeWindow = await this.getActiveWindowInfo();
+    const wait = Math.max(0, this.lastCaptureAt + delay - Date.now());
+    this.captureTimer = setTimeout(async () => {
+      this.captureTimer = null;
+      this.captureInFlight = true;
+      try {
+        await this.captureScreen();
+      } finally {
+        this.captureInFlight = false;
+      }
+      this.scheduleNextCapture();
+    }, wait);
+  }
 
-      const captureResult: ScreenCaptureResult = {
-        timestamp: Date.now(),
-        imageData: source.thumbnail.toDataURL(),
-        activeWindow: activeWindow.name,
-        screenId: source.id
-      };
+  private async captureScreen(): Promise<void> {
+    this.lastCaptureAt = Date.now();
+    try {
+      const captureResult = await this.captureActiveWindow();
 
       // Trigger callback with capture result
-      if (this.captureCallback) {
+      if (captureResult && this.captureCallback) {
         this.captureCallback(captureResult);
       }
 
@@ -99,25 +130,145 @@ export class ScreenCaptureService {
     }
   }
 
-  private async getActiveWindowInfo(): Promise<{ name: string; bounds: any }> {
-    try {
-      const sources = await desktopCapturer.getSources({
-        types: ['window'],
-        thumbnailSize: { width: 150, height: 150 }
+  public async captureActiveWindow(): Promise<ScreenCaptureResult | null> {
+    const activeWindow = await this.getActiveWindowInfo();
+    const bounds = activeWindow?.bounds ?? null;
+    const display = bounds ? this.findDisplayForBounds(bounds) : screen.getPrimaryDisplay();
+    const displayRect = this.physicalRect(display);
+
+    // Thumbnails are requested at native resolution so cropping keeps every pixel
+    const sources = await desktopCapturer.getSources({
+      types: ['screen'],
+      thumbnailSize: { width: displayRect.width, height: displayRect.height }
+    });
+
+    if (sources.length === 0) {
+      this.logger.error('No screen sources available');
+      return null;
+    }
+
+    const source = sources.find(candidate => candidate.display_id === String(display.id)) || sources[0];
+    let image = source.thumbnail;
+    let region = displayRect;
+
+    if (bounds) {
+      const visible = this.intersect(bounds, displayRect);
+      if (!visible) {
+        this.logger.warn(`Focused window is outside display ${display.id}, skipping capture`);
+        return null;
+      }
+
+      const imageSize = image.getSize();
+      const ratio = imageSize.width / displayRect.width;
+      image = image.crop({
+        x: Math.round((visible.x - displayRect.x) * ratio),
+        y: Math.round((visible.y - displayRect.y) * ratio),
+        width: Math.round(visible.width * ratio),
+        height: Math.round(visible.height * ratio)
       });
+      region = visible;
+    }
 
-      // Find the focused window (heuristic: usually the first in the list)
-      if (sources.length > 0) {
-        return {
-          name: sources[0].name,
-          bounds: null // Electron doesn't provide window bounds directly
-        };
+    const scaled = this.scaleForOCR(image, region, display.scaleFactor);
+
+    return {
+      timestamp: Date.now(),
+      imageData: scaled.image.toPNG(),
+      activeWindow: activeWindow?.title || 'Unknown',
+      window: activeWindow,
+      region,
+      scale: scaled.scale,
+      screenId: source.id,
+      fingerprint: this.fingerprint(scaled.image)
+    };
+  }
+
+  // Window bounds are physical pixels while Electron displays are in DIPs
+  private physicalRect(display: Display): WindowBounds {
+    return {
+      x: Math.round(display.bounds.x * display.scaleFactor),
+      y: Math.round(display.bounds.y * display.scaleFactor),
+      width: Math.round(display.bounds.width * display.scaleFactor),
+      height: Math.round(display.bounds.height * display.scaleFactor)
+    };
+  }
+
+  private findDisplayForBounds(bounds: WindowBounds): Display {
+    let best = screen.getPrimaryDisplay();
+    let bestArea = 0;
+
+    for (const display of screen.getAllDisplays()) {
+      const overlap = this.intersect(bounds, this.physicalRect(display));
+      const area = overlap ? overlap.width * overlap.height : 0;
+      if (area > bestArea) {
+        best = display;
+        bestArea = area;
+      }
+    }
+
+    return best;
+  }
+
+  private intersect(a: WindowBounds, b: WindowBounds): WindowBounds | null {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    const right = Math.min(a.x + a.width, b.x + b.width);
+    const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+    if (right <= x || bottom <= y) {
+      return null;
+    }
+    return { x, y, width: right - x, height: bottom - y };
+  }
+
+  private scaleForOCR(image: NativeImage, region: WindowBounds, scaleFactor: number): { image: NativeImage; scale: number } {
+    const size = image.getSize();
+    const nativeScale = size.width / region.width;
+
+    // HiDPI displays already render text large enough; only upscale standard-DPI captures
+    let factor = Math.max(1, OCR_TARGET_SCALE_FACTOR / Math.max(1, scaleFactor));
+    const pixels = size.width * size.height * factor * factor;
+    if (pixels > MAX_CAPTURE_PIXELS) {
+      factor *= Math.sqrt(MAX_CAPTURE_PIXELS / pixels);
+    }
+
+    if (Math.abs(factor - 1) < 0.05) {
+      return { image, scale: nativeScale };
+    }
+
+    return {
+      image: image.resize({
+        width: Math.round(size.width * factor),
+        height: Math.round(size.height * factor),
+        quality: 'best'
+      }),
+      scale: nativeScale * factor
+    };
+  }
+
+  // The native resampler averages each block, which is far cheaper than walking full-size pixels
+  private fingerprint(image: NativeImage): FrameFingerprint | null {
+    try {
+      const size = image.getSize();
+      if (size.width === 0 || size.height === 0) {
+        return null;
       }
 
-      return { name: 'Unknown', bounds: null };
+      const grid = fingerprintGrid(size.width, size.height);
+      const sampled = image.resize({ width: grid.sampleWidth, height: grid.sampleHeight, quality: 'good' });
+      return createFrameFingerprint(sampled.toBitmap(), size.width, size.height);
+    } catch (error) {
+      this.logger.warn('Could not fingerprint capture, change detection disabled for this frame:', error);
+      return null;
+    }
+  }
+
+  public async getActiveWindowInfo(): Promise<ActiveWindowInfo | null> {
+    try {
+      return await this.windowProvider.getActiveWindow();
     } catch (error) {
       this.logger.error('Error getting active window info:', error);
-      return { name: 'Unknown', bounds: null };
+      return null;
     }
   }
 
@@ -139,9 +290,13 @@ export class ScreenCaptureService {
 
       return {
         timestamp: Date.now(),
-        imageData: targetWindow.thumbnail.toDataURL(),
+        imageData: targetWindow.thumbnail.toPNG(),
         activeWindow: targetWindow.name,
-        screenId: targetWindow.id
+        window: null,
+        region: null,
+        scale: 1,
+        screenId: targetWindow.id,
+        fingerprint: this.fingerprint(targetWindow.thumbnail)
       };
     } catch (error) {
       this.logger.error('Error capturing specific window:', error);
@@ -151,10 +306,7 @@ export class ScreenCaptureService {
 
   public async saveCapture(capture: ScreenCaptureResult, outputPath: string): Promise<void> {
     try {
-      const base64Data = capture.imageData.replace(/^data:image\/png;base64,/, '');
-      const buffer = Buffer.from(base64Data, 'base64');
-      
-      await fs.promises.writeFile(outputPath, buffer);
+      await fs.promises.writeFile(outputPath, capture.imageData);
       this.logger.info(`Screen capture saved to ${outputPath}`);
     } catch (error) {
       this.logger.error('Error saving capture:', error);
@@ -0,0 +1,75 @@
+import secretCatalog from '../data/secret-signatures.json';
+import {
+  SensitiveDataDetector,
+  FindingSeverity,
+  RegexDetector,
+  EntropyDetector
+} from './SensitiveDataDetectors';
+
+export interface SecretSignature {
+  id: string;
+  provider: string;
+  name: string;
+  type: string;
+  pattern: string;
+  flags?: string;
+  severity: FindingSeverity;
+  confidence: number;
+}
+
+export interface SecretSignatureCatalog {
+  version: string;
+  updated: string;
+  signatures: SecretSignature[];
+}
+
+// Keywords that make a nearby random-looking token worth reporting
+const SECRET_KEYWORDS = [
+  'secret',
+  'token',
+  'api[_-]?key',
+  'passw',
+  'credential',
+  'auth',
+  'private[_-]?key',
+  'client[_-]?secret',
+  'signing[_-]?key'
+];
+
+export function getSecretCatalog(): SecretSignatureCatalog {
+  return secretCatalog as SecretSignatureCatalog;
+}
+
+/**
+ * Builds one detector per catalog signature plus an entropy detector for
+ * credentials the catalog does not know. Every finding carries the provider
+ * so alerts can say which key needs rotating.
+ */
+export function createSecretDetectors(catalog: SecretSignatureCatalog = getSecretCatalog()): SensitiveDataDetector[] {
+  const detectors: SensitiveDataDetector[] = catalog.signatures.map(signature => new RegexDetector({
+    id: `secrets.${signature.id}`,
+    type: signature.type,
+    category: 'secret',
+    severity: signature.severity,
+    confidence: signature.confidence,
+    description: `${signature.provider} ${signature.name}`,
+    provider: signature.provider,
+    pattern: new RegExp(signature.pattern, signature.flags || '')
+  }));
+
+  detectors.push(new EntropyDetector({
+    id: 'secrets.entropy',
+    type: 'genericSecret',
+    category: 'secret',
+    severity: 'high',
+    confidence: 0.6,
+    description: 'High-entropy token next to a credential keyword',
+    provider: 'Unknown',
+    minLength: 20,
+    threshold: 3.8,
+    keywords: SECRET_KEYWORDS,
+    keywordWindow: 40
+  }));
+
+  return detectors;
+}
\ No newline at end of file
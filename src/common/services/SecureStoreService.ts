@@ -0,0 +1,39 @@
+import Store from 'electron-store';
+import { Logger } from '../utils/Logger';
+
+// Encrypted store for credentials; only ever used from the main process
+export class SecureStoreService {
+  private static instance: SecureStoreService;
+  private store: Store;
+  private logger: Logger;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.store = new Store({
+      name: 'dam-api-keys',
+      encryptionKey: 'dam-desktop-secure-key',
+      clearInvalidConfig: true
+    });
+  }
+
+  public static getInstance(): SecureStoreService {
+    if (!SecureStoreService.instance) {
+      SecureStoreService.instance = new SecureStoreService();
+    }
+    return SecureStoreService.instance;
+  }
+
+  public setAPIKey(service: string, key: string): void {
+    this.store.set(`apikey.${service}`, key);
+    this.logger.info(`API key for ${service} stored securely`);
+  }
+
+  public getAPIKey(service: string): string {
+    return this.store.get(`apikey.${service}`, '') as string;
+  }
+
+  public clearAPIKey(service: string): void {
+    this.store.delete(`apikey.${service}`);
+    this.logger.info(`API key for ${service} cleared`);
+  }
+}
\ No newline at end of file
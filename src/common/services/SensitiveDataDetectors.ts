@@ -0,0 +1,238 @@
+export type FindingSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type DetectorKind = 'regex' | 'checksum' | 'dictionary' | 'entropy' | 'ner';
+
+export type DetectorCategory = 'pii' | 'secret' | 'financial' | 'business' | 'custom';
+
+export interface SensitiveDataFinding {
+  detectorId: string;
+  type: string;
+  category: DetectorCategory;
+  severity: FindingSeverity;
+  confidence: number;
+  start: number;
+  end: number;
+  value: string;
+  provider?: string;
+}
+
+export interface SensitiveDataDetector {
+  id: string;
+  type: string;
+  kind: DetectorKind;
+  category: DetectorCategory;
+  severity: FindingSeverity;
+  description?: string;
+  detect(text: string): SensitiveDataFinding[];
+  // Detectors backed by a model run it here; detect() is their rule-based fallback
+  detectAsync?(text: string): Promise<SensitiveDataFinding[]>;
+}
+
+export const SEVERITY_RANK: Record<FindingSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3
+};
+
+export type ChecksumValidator = (candidate: string, text: string, index: number) => number | null;
+
+export interface DetectorOptions {
+  id: string;
+  type: string;
+  category: DetectorCategory;
+  severity: FindingSeverity;
+  confidence?: number;
+  description?: string;
+  provider?: string;
+}
+
+abstract class BaseDetector implements SensitiveDataDetector {
+  public abstract readonly kind: DetectorKind;
+  public readonly id: string;
+  public readonly type: string;
+  public readonly category: DetectorCategory;
+  public readonly severity: FindingSeverity;
+  public readonly description?: string;
+  public readonly provider?: string;
+  protected readonly confidence: number;
+
+  constructor(options: DetectorOptions) {
+    this.id = options.id;
+    this.type = options.type;
+    this.category = options.category;
+    this.severity = options.severity;
+    this.confidence = options.confidence ?? 0.7;
+    this.description = options.description;
+    this.provider = options.provider;
+  }
+
+  public abstract detect(text: string): SensitiveDataFinding[];
+
+  protected finding(start: number, value: string, confidence = this.confidence): SensitiveDataFinding {
+    const finding: SensitiveDataFinding = {
+      detectorId: this.id,
+      type: this.type,
+      category: this.category,
+      severity: this.severity,
+      confidence,
+      start,
+      end: start + value.length,
+      value
+    };
+    if (this.provider) {
+      finding.provider = this.provider;
+    }
+    return finding;
+  }
+}
+
+export class RegexDetector extends BaseDetector {
+  public readonly kind: DetectorKind = 'regex';
+  private pattern: RegExp;
+
+  constructor(options: DetectorOptions & { pattern: RegExp }) {
+    super(options);
+    const flags = options.pattern.flags.includes('g') ? options.pattern.flags : `${options.pattern.flags}g`;
+    this.pattern = new RegExp(options.pattern.source, flags);
+  }
+
+  public detect(text: string): SensitiveDataFinding[] {
+    const findings: SensitiveDataFinding[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      if (match[0].length > 0) {
+        findings.push(this.finding(match.index ?? 0, match[0]));
+      }
+    }
+    return findings;
+  }
+}
+
+/**
+ * Regex candidates that are only reported once a validator accepts them. The
+ * validator sees the candidate plus its position in the text (for context
+ * keywords) and returns a confidence in [0, 1], or null to reject it.
+ */
+export class ChecksumDetector extends BaseDetector {
+  public readonly kind: DetectorKind = 'checksum';
+  private pattern: RegExp;
+  private validate: ChecksumValidator;
+
+  constructor(options: DetectorOptions & { pattern: RegExp; validate: ChecksumValidator }) {
+    super(options);
+    const flags = options.pattern.flags.includes('g') ? options.pattern.flags : `${options.pattern.flags}g`;
+    this.pattern = new RegExp(options.pattern.source, flags);
+    this.validate = options.validate;
+  }
+
+  public detect(text: string): SensitiveDataFinding[] {
+    const findings: SensitiveDataFinding[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      const confidence = this.validate(match[0], text, match.index ?? 0);
+      if (confidence !== null) {
+        findings.push(this.finding(match.index ?? 0, match[0], confidence));
+      }
+    }
+    return findings;
+  }
+}
+
+export class DictionaryDetector extends BaseDetector {
+  public readonly kind: DetectorKind = 'dictionary';
+  private pattern: RegExp | null;
+
+  constructor(options: DetectorOptions & { terms: string[]; caseSensitive?: boolean }) {
+    super(options);
+    const terms = options.terms
+      .map(term => term.trim())
+      .filter(term => term.length > 0)
+      // Longest first so "Project Falcon X" wins over "Project Falcon"
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    this.pattern = terms.length > 0
+      ? new RegExp(`(?<![\\w-])(?:${terms.join('|')})(?![\\w-])`, options.caseSensitive ? 'g' : 'gi')
+      : null;
+  }
+
+  public detect(text: string): SensitiveDataFinding[] {
+    if (!this.pattern) return [];
+
+    const findings: SensitiveDataFinding[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      findings.push(this.finding(match.index ?? 0, match[0]));
+    }
+    return findings;
+  }
+}
+
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Flags random-looking tokens. When keywords are given, a token only counts if
+ * one of them appears within `keywordWindow` characters before it.
+ */
+export class EntropyDetector extends BaseDetector {
+  public readonly kind: DetectorKind = 'entropy';
+  private minLength: number;
+  private threshold: number;
+  private keywords: RegExp | null;
+  private keywordWindow: number;
+
+  constructor(options: DetectorOptions & {
+    minLength?: number;
+    threshold?: number;
+    keywords?: string[];
+    keywordWindow?: number;
+  }) {
+    super(options);
+    this.minLength = options.minLength ?? 20;
+    this.threshold = options.threshold ?? 4.0;
+    this.keywords = options.keywords && options.keywords.length > 0
+      ? new RegExp(options.keywords.join('|'), 'i')
+      : null;
+    this.keywordWindow = options.keywordWindow ?? 40;
+  }
+
+  public detect(text: string): SensitiveDataFinding[] {
+    const findings: SensitiveDataFinding[] = [];
+    const tokenPattern = new RegExp(`[A-Za-z0-9+/_\\-.]{${this.minLength},}={0,2}`, 'g');
+
+    for (const match of text.matchAll(tokenPattern)) {
+      const token = match[0];
+      const start = match.index ?? 0;
+
+      // Tokens made of a single character class (words, long numbers) are not secrets
+      const classes = [/[a-z]/, /[A-Z]/, /[0-9]/].filter(cls => cls.test(token)).length;
+      if (classes < 2) continue;
+
+      const entropy = shannonEntropy(token);
+      if (entropy < this.threshold) continue;
+
+      if (this.keywords) {
+        const preceding = text.substring(Math.max(0, start - this.keywordWindow), start);
+        if (!this.keywords.test(preceding)) continue;
+      }
+
+      // Scale confidence with how far the token clears the threshold
+      const confidence = Math.min(0.95, this.confidence + (entropy - this.threshold) * 0.1);
+      findings.push(this.finding(start, token, confidence));
+    }
+
+    return findings;
+  }
+}
\ No newline at end of file
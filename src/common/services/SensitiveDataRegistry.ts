@@ -0,0 +1,242 @@
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { validateCreditCard, validateIBAN, validatePhone, validateSSN } from '../utils/PIIValidators';
+import {
+  SensitiveDataDetector,
+  SensitiveDataFinding,
+  DetectorCategory,
+  DetectorOptions,
+  FindingSeverity,
+  RegexDetector,
+  ChecksumDetector,
+  DictionaryDetector
+} from './SensitiveDataDetectors';
+import { createSecretDetectors, getSecretCatalog } from './SecretScanner';
+import { createEntityDetectors } from './EntityRecognizer';
+
+// Shape of detectors declared in config under `detectors.custom`
+export interface CustomDetectorDefinition {
+  id: string;
+  type: string;
+  kind: 'regex' | 'dictionary';
+  severity: FindingSeverity;
+  category?: DetectorCategory;
+  confidence?: number;
+  description?: string;
+  pattern?: string;
+  flags?: string;
+  terms?: string[];
+  caseSensitive?: boolean;
+}
+
+export class SensitiveDataRegistry {
+  private static instance: SensitiveDataRegistry;
+  private logger: Logger;
+  private configService: ConfigService;
+  private detectors = new Map<string, SensitiveDataDetector>();
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.registerBuiltInDetectors();
+    this.loadCustomDetectors();
+
+    this.configService.onDidChange('detectors', () => {
+      this.loadCustomDetectors();
+    });
+  }
+
+  public static getInstance(): SensitiveDataRegistry {
+    if (!SensitiveDataRegistry.instance) {
+      SensitiveDataRegistry.instance = new SensitiveDataRegistry();
+    }
+    return SensitiveDataRegistry.instance;
+  }
+
+  public register(detector: SensitiveDataDetector): void {
+    if (this.detectors.has(detector.id)) {
+      this.logger.warn(`Replacing sensitive data detector: ${detector.id}`);
+    }
+    this.detectors.set(detector.id, detector);
+  }
+
+  public unregister(id: string): boolean {
+    return this.detectors.delete(id);
+  }
+
+  public getDetector(id: string): SensitiveDataDetector | undefined {
+    return this.detectors.get(id);
+  }
+
+  public listDetectors(): SensitiveDataDetector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  public scan(text: string, categories?: DetectorCategory[]): SensitiveDataFinding[] {
+    if (!text) return [];
+
+    const findings: SensitiveDataFinding[] = [];
+    for (const detector of this.activeDetectors(categories)) {
+      try {
+        findings.push(...detector.detect(text));
+      } catch (error) {
+        this.logger.error(`Sensitive data detector ${detector.id} failed:`, error);
+      }
+    }
+
+    return this.sortFindings(findings);
+  }
+
+  /**
+   * Like scan, but lets model-backed detectors run their model. Callers
+   * that can wait should prefer it; scan gives those detectors' rules only.
+   */
+  public async scanAsync(text: string, categories?: DetectorCategory[]): Promise<SensitiveDataFinding[]> {
+    if (!text) return [];
+
+    const findings: SensitiveDataFinding[] = [];
+    for (const detector of this.activeDetectors(categories)) {
+      try {
+        findings.push(...(detector.detectAsync ? await detector.detectAsync(text) : detector.detect(text)));
+      } catch (error) {
+        this.logger.error(`Sensitive data detector ${detector.id} failed:`, error);
+      }
+    }
+
+    return this.sortFindings(findings);
+  }
+
+  private activeDetectors(categories?: DetectorCategory[]): SensitiveDataDetector[] {
+    const disabled = new Set(this.configService.get<string[]>('detectors.disabled', []));
+    return this.listDetectors().filter(detector =>
+      !disabled.has(detector.id) && (!categories || categories.includes(detector.category))
+    );
+  }
+
+  private sortFindings(findings: SensitiveDataFinding[]): SensitiveDataFinding[] {
+    return this.dropShadowedEntropyFindings(findings)
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  // A known signature beats the generic entropy guess for the same token
+  private dropShadowedEntropyFindings(findings: SensitiveDataFinding[]): SensitiveDataFinding[] {
+    const entropyIds = new Set(
+      this.listDetectors().filter(detector => detector.kind === 'entropy').map(detector => detector.id)
+    );
+
+    return findings.filter(finding => {
+      if (!entropyIds.has(finding.detectorId)) return true;
+      return !findings.some(other =>
+        !entropyIds.has(other.detectorId) && other.start <= finding.start && other.end >= finding.end
+      );
+    });
+  }
+
+  private registerBuiltInDetectors(): void {
+    const builtIns: SensitiveDataDetector[] = [
+      // Validated identifiers: SSA area/group rules, Luhn, IBAN mod-97
+      new ChecksumDetector({
+        id: 'builtin.ssn', type: 'ssn', category: 'pii', severity: 'critical',
+        pattern: /(?<![\d-])\d{3}[- ]?\d{2}[- ]?\d{4}(?![\d-])/,
+        validate: validateSSN
+      }),
+      new ChecksumDetector({
+        id: 'builtin.creditCard', type: 'creditCard', category: 'financial', severity: 'high',
+        pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/,
+        validate: validateCreditCard
+      }),
+      new ChecksumDetector({
+        id: 'builtin.iban', type: 'iban', category: 'financial', severity: 'high',
+        pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/,
+        validate: validateIBAN
+      }),
+      new RegexDetector({
+        id: 'builtin.email', type: 'email', category: 'pii', severity: 'medium', confidence: 0.95,
+        pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/
+      }),
+      new ChecksumDetector({
+        id: 'builtin.phone', type: 'phone', category: 'pii', severity: 'medium',
+        pattern: /(?<![\w+])(?:\+\d[\d ().-]{6,18}\d|\(?\d{3}\)?[ .-]?\d{3}[ .-]?\d{4})(?![\d-])/,
+        validate: validatePhone
+      }),
+      new RegexDetector({
+        id: 'builtin.apiKeyGeneral', type: 'apiKeyGeneral', category: 'secret', severity: 'medium',
+        pattern: /\b(api[_-]?key|apikey|api[_-]?secret|access[_-]?token|bearer)[:\s=]*['"]?[a-zA-Z0-9_-]{16,}['"]?\b/i
+      }),
+      new RegexDetector({
+        id: 'builtin.password', type: 'password', category: 'secret', severity: 'critical', confidence: 0.85,
+        pattern: /\b(password|passwd|pwd)[:\s=]*['"]?[^\s'"]{8,}['"]?\b/i
+      }),
+      new RegexDetector({
+        id: 'builtin.financialData', type: 'financialData', category: 'financial', severity: 'high', confidence: 0.4,
+        pattern: /\$[\d,]+\.?\d*|USD\s*[\d,]+|revenue|profit|salary|income/i
+      }),
+      new RegexDetector({
+        id: 'builtin.customerData', type: 'customerData', category: 'business', severity: 'high', confidence: 0.5,
+        pattern: /\b(customer|client)s?\s+(names?|lists?|data|records?|details|emails?|addresses|ids?)\b|\baccount\s+(holder|name)s?\b|\bbilling\s+address(es)?\b/i
+      })
+    ];
+
+    builtIns.forEach(detector => this.register(detector));
+
+    // Names, addresses and birth dates: the GDPR data that regexes miss
+    createEntityDetectors().forEach(detector => this.register(detector));
+
+    createSecretDetectors().forEach(detector => this.register(detector));
+    this.logger.info(`Loaded secret signature catalog v${getSecretCatalog().version}`);
+  }
+
+  private loadCustomDetectors(): void {
+    // Drop previously loaded custom detectors so edits and removals take effect
+    for (const id of Array.from(this.detectors.keys())) {
+      if (id.startsWith('custom.')) {
+        this.detectors.delete(id);
+      }
+    }
+
+    const definitions = this.configService.get<CustomDetectorDefinition[]>('detectors.custom', []);
+    for (const definition of definitions) {
+      try {
+        this.register(this.createCustomDetector(definition));
+      } catch (error) {
+        this.logger.error(`Invalid custom detector ${definition.id}:`, error);
+      }
+    }
+
+    if (definitions.length > 0) {
+      this.logger.info(`Loaded ${definitions.length} custom sensitive data detector(s)`);
+    }
+  }
+
+  private createCustomDetector(definition: CustomDetectorDefinition): SensitiveDataDetector {
+    if (!definition.id || !definition.type) {
+      throw new Error('Custom detectors require an id and a type');
+    }
+
+    const options: DetectorOptions = {
+      id: `custom.${definition.id}`,
+      type: definition.type,
+      category: definition.category || 'custom',
+      severity: definition.severity || 'medium',
+      confidence: definition.confidence,
+      description: definition.description
+    };
+
+    switch (definition.kind) {
+      case 'regex':
+        if (!definition.pattern) {
+          throw new Error('Regex detectors require a pattern');
+        }
+        return new RegexDetector({ ...options, pattern: new RegExp(definition.pattern, definition.flags || '') });
+
+      case 'dictionary':
+        if (!definition.terms || definition.terms.length === 0) {
+          throw new Error('Dictionary detectors require at least one term');
+        }
+        return new DictionaryDetector({ ...options, terms: definition.terms, caseSensitive: definition.caseSensitive });
+
+      default:
+        throw new Error(`Unsupported custom detector kind: ${definition.kind}`);
+    }
+  }
+}
\ No newline at end of file
@@ -1,11 +1,10 @@
+import { getBundledToolCatalog } from './AIToolCatalog';
+import { PROMPT_DIMENSIONS, PromptDimension, PromptVerdict, scorePrompt } from './PromptScorer';
+
 interface PromptAnalysis {
   originalPrompt: string;
-  analysis: {
-    clarity: number;
-    specificity: number;
-    context: number;
-    goalOrientation: number;
-  };
+  verdict: PromptVerdict;
+  analysis: Record<PromptDimension, number>;
   issues: string[];
   strengths: string[];
 }
@@ -29,56 +28,17 @@ interface TrainingResource {
 export class SmartDamAssistant {
   private static instance: SmartDamAssistant;
 
-  private aiTools = {
-    'ChatGPT': {
-      categories: ['general', 'writing', 'brainstorming', 'code'],
-      strengths: ['conversational', 'creative writing', 'explanations'],
-      link: 'https://chat.openai.com',
-      pricing: 'Free / $20 per month'
-    },
-    'Claude': {
-      categories: ['analysis', 'code', 'research', 'writing'],
-      strengths: ['long context', 'technical analysis', 'code review'],
-      link: 'https://claude.ai',
-      pricing: 'Free / $20 per month'
-    },
-    'GitHub Copilot': {
-      categories: ['code', 'development'],
-      strengths: ['code completion', 'test generation', 'documentation'],
-      link: 'https://github.com/features/copilot',
-      pricing: '$10 per month'
-    },
-    'Perplexity': {
-      categories: ['research', 'search', 'fact-checking'],
-      strengths: ['web search', 'citations', 'current information'],
-      link: 'https://perplexity.ai',
-      pricing: 'Free / $20 per month'
-    },
-    'Midjourney': {
-      categories: ['design', 'image', 'creative'],
-      strengths: ['artistic images', 'concept art', 'visual design'],
-      link: 'https://midjourney.com',
-      pricing: '$10+ per month'
-    },
-    'DALL-E': {
-      categories: ['design', 'image', 'creative'],
-      strengths: ['photorealistic images', 'edits', 'variations'],
-      link: 'https://openai.com/dall-e',
-      pricing: 'Credits-based'
-    },
-    'Notion AI': {
-      categories: ['writing', 'productivity', 'organization'],
-      strengths: ['summaries', 'action items', 'content improvement'],
-      link: 'https://notion.so/product/ai',
-      pricing: '$10 per month'
-    },
-    'Grammarly': {
-      categories: ['writing', 'editing'],
-      strengths: ['grammar', 'tone', 'clarity'],
-      link: 'https://grammarly.com',
-      pricing: 'Free / $12 per month'
-    }
-  };
+  // Tools the catalog tags with task categories, keyed by display name
+  private aiTools = Object.fromEntries(
+    getBundledToolCatalog().tools
+      .filter(tool => tool.taskCategories && tool.taskCategories.length > 0)
+      .map(tool => [tool.name, {
+        categories: tool.taskCategories!,
+        strengths: tool.strengths || [],
+        link: tool.url || '',
+        pricing: tool.pricing?.plan || ''
+      }])
+  );
 
   private trainingResources = [
     {
@@ -151,31 +111,26 @@ export class SmartDamAssistant {
   }
 
   analyzePrompt(prompt: string): PromptAnalysis {
-    const analysis = {
-      clarity: this.assessClarity(prompt),
-      specificity: this.assessSpecificity(prompt),
-      context: this.assessContext(prompt),
-      goalOrientation: this.assessGoalOrientation(prompt)
-    };
+    const score = scorePrompt(prompt);
+    const dimensions = Object.keys(PROMPT_DIMENSIONS) as PromptDimension[];
+    const analysis = Object.fromEntries(
+      dimensions.map(dimension => [dimension, score.dimensions[dimension].score])
+    ) as Record<PromptDimension, number>;
 
     const issues: string[] = [];
     const strengths: string[] = [];
 
-    // Identify issues
-    if (analysis.clarity < 0.5) issues.push('Prompt is vague or unclear');
-    if (analysis.specificity < 0.5) issues.push('Lacks specific details or requirements');
-    if (analysis.context < 0.5) issues.push('Missing important context or background');
-    if (analysis.goalOrientation < 0.5) issues.push('Goal or desired outcome is unclear');
-    if (prompt.length < 20) issues.push('Prompt is too short');
-    if (!prompt.includes(' ')) issues.push('Single word prompts are rarely effective');
-
-    // Identify strengths
-    if (analysis.clarity > 0.7) strengths.push('Clear and well-structured');
-    if (analysis.specificity > 0.7) strengths.push('Contains specific requirements');
-    if (analysis.context > 0.7) strengths.push('Good context provided');
-    if (analysis.goalOrientation > 0.7) strengths.push('Clear goal defined');
-
-    return { originalPrompt: prompt, analysis, issues, strengths };
+    // Dimensions the scorer could not grade in the prompt's language are left out
+    for (const dimension of dimensions) {
+      const { score: value, graded, explanation } = score.dimensions[dimension];
+      if (!graded) continue;
+      if (value < 0.5) issues.push(`${PROMPT_DIMENSIONS[dimension].label}: ${explanation}`);
+      if (value > 0.7) strengths.push(`${PROMPT_DIMENSIONS[dimension].label}: ${explanation}`);
+    }
+    if (score.wordCount < 4) issues.push('Prompt is too short');
+    if (score.wordCount <= 1) issues.push('Single word prompts are rarely effective');
+
+    return { originalPrompt: prompt, verdict: score.verdict, analysis, issues, strengths };
   }
 
   improvePrompt(prompt: string, userRole?: string, context?: string): string {
@@ -349,60 +304,6 @@ export class SmartDamAssistant {
     return { improvedPrompt, tools, training, tips };
   }
 
-  private assessClarity(prompt: string): number {
-    const hasQuestionWords = /\b(what|how|why|when|where|who|which)\b/i.test(prompt);
-    const hasActionVerbs = /\b(create|write|explain|analyze|help|make|build|design)\b/i.test(prompt);
-    const sentenceStructure = prompt.includes(' ') && prompt.length > 10;
-    
-    let score = 0;
-    if (hasQuestionWords) score += 0.3;
-    if (hasActionVerbs) score += 0.4;
-    if (sentenceStructure) score += 0.3;
-    
-    return Math.min(score, 1);
-  }
-
-  private assessSpecificity(prompt: string): number {
-    const hasNumbers = /\d/.test(prompt);
-    const hasSpecificNouns = /\b(code|function|design|report|email|article|image)\b/i.test(prompt);
-    const hasConstraints = /\b(must|should|need|require|limit|max|min)\b/i.test(prompt);
-    const wordCount = prompt.split(' ').length;
-    
-    let score = 0;
-    if (hasNumbers) score += 0.2;
-    if (hasSpecificNouns) score += 0.3;
-    if (hasConstraints) score += 0.3;
-    if (wordCount > 10) score += 0.2;
-    
-    return Math.min(score, 1);
-  }
-
-  private assessContext(prompt: string): number {
-    const hasBackground = /\b(for|about|regarding|concerning|related to)\b/i.test(prompt);
-    const hasAudience = /\b(user|customer|team|client|audience|reader)\b/i.test(prompt);
-    const hasPurpose = /\b(to|in order to|so that|because)\b/i.test(prompt);
-    
-    let score = 0;
-    if (hasBackground) score += 0.35;
-    if (hasAudience) score += 0.35;
-    if (hasPurpose) score += 0.3;
-    
-    return Math.min(score, 1);
-  }
-
-  private assessGoalOrientation(prompt: string): number {
-    const hasGoalWords = /\b(want|need|goal|objective|outcome|result|achieve)\b/i.test(prompt);
-    const hasDeliverables = /\b(provide|give|create|generate|produce|output)\b/i.test(prompt);
-    const hasFormat = /\b(format|structure|style|tone|length)\b/i.test(prompt);
-    
-    let score = 0;
-    if (hasGoalWords) score += 0.4;
-    if (hasDeliverables) score += 0.3;
-    if (hasFormat) score += 0.3;
-    
-    return Math.min(score, 1);
-  }
-
   private addClarity(prompt: string): string {
     if (!prompt.includes('help') && !prompt.includes('?')) {
       return `Help me ${prompt}`;
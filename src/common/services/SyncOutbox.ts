@@ -0,0 +1,188 @@
+import { Logger } from '../utils/Logger';
+import { DatabaseService } from './DatabaseService';
+
+export type OutboxKind = 'usage_event' | 'security_alert';
+
+export interface OutboxItem<T = any> {
+  id: string;
+  kind: OutboxKind;
+  payload: T;
+  createdAt: number;
+  attempts: number;
+  rejections: number;
+}
+
+export interface OutboxStatus {
+  pending: Record<OutboxKind, number>;
+  failed: Record<OutboxKind, number>;
+  oldestCreatedAt: number | null;
+  nextAttemptAt: number | null;
+}
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// About a week of retries once the delay reaches its cap
+const MAX_ATTEMPTS = 40;
+// A dashboard that keeps rejecting an item will not accept it on the next try either
+const MAX_REJECTIONS = 3;
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half is
+ * random, so many offline clients coming back at once do not retry in step.
+ */
+export function computeRetryDelay(attempts: number, random: () => number = Math.random): number {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Durable queue of items waiting for the dashboard. Rows are only deleted
+ * once the dashboard acknowledged them, so delivery is at-least-once across
+ * restarts and outages of up to about a week. Items that cannot be read,
+ * are rejected repeatedly or run out of attempts stay in the table as
+ * 'failed' so they no longer hold up the rest of the queue.
+ */
+export class SyncOutbox {
+  private static instance: SyncOutbox;
+  private logger: Logger;
+  private databaseService: DatabaseService;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.databaseService = DatabaseService.getInstance();
+  }
+
+  public static getInstance(): SyncOutbox {
+    if (!SyncOutbox.instance) {
+      SyncOutbox.instance = new SyncOutbox();
+    }
+    return SyncOutbox.instance;
+  }
+
+  public async enqueue(kind: OutboxKind, id: string, payload: unknown, now = Date.now()): Promise<void> {
+    // Re-enqueueing an id is a no-op so callers may safely retry
+    await this.databaseService.run(
+      `INSERT OR IGNORE INTO sync_outbox (id, kind, payload, created_at, next_attempt_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, kind, JSON.stringify(payload), now, now]
+    );
+  }
+
+  public async takeDue(kind: OutboxKind, limit: number, now = Date.now()): Promise<OutboxItem[]> {
+    const rows = await this.databaseService.query(
+      `SELECT id, kind, payload, created_at, attempts, rejections FROM sync_outbox
+       WHERE status = 'pending' AND kind = ? AND next_attempt_at <= ?
+       ORDER BY created_at, id
+       LIMIT ?`,
+      [kind, now, limit]
+    );
+
+    const items: OutboxItem[] = [];
+    const unreadable: string[] = [];
+    for (const row of rows) {
+      try {
+        items.push({
+          id: row.id,
+          kind: row.kind,
+          payload: JSON.parse(row.payload),
+          createdAt: row.created_at,
+          attempts: row.attempts,
+          rejections: row.rejections
+        });
+      } catch {
+        unreadable.push(row.id);
+      }
+    }
+
+    if (unreadable.length === 0) {
+      return items;
+    }
+
+    // One corrupt row must not fail every sync; park it and read the batch again without it
+    await this.databaseService.transaction(async () => {
+      for (const id of unreadable) {
+        await this.databaseService.run(
+          `UPDATE sync_outbox SET status = 'failed', last_error = ? WHERE id = ?`,
+          ['Unreadable payload', id]
+        );
+      }
+    });
+    this.logger.warn(`Quarantined ${unreadable.length} unreadable ${kind} item(s) in the sync outbox`);
+
+    return this.takeDue(kind, limit, now);
+  }
+
+  public async acknowledge(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.databaseService.transaction(async () => {
+      for (const id of ids) {
+        await this.databaseService.run('DELETE FROM sync_outbox WHERE id = ?', [id]);
+      }
+    });
+  }
+
+  /**
+   * Backs the items off after a failed delivery. `rejected` means the
+   * dashboard refused the request itself (a 4xx other than auth or rate
+   * limiting) rather than being unreachable.
+   */
+  public async reschedule(items: OutboxItem[], error: string, rejected = false, now = Date.now()): Promise<number> {
+    let earliest = Number.POSITIVE_INFINITY;
+    let failed = 0;
+
+    await this.databaseService.transaction(async () => {
+      for (const item of items) {
+        const attempts = item.attempts + 1;
+        const rejections = item.rejections + (rejected ? 1 : 0);
+        const nextAttemptAt = now + computeRetryDelay(attempts);
+        const status = attempts >= MAX_ATTEMPTS || rejections >= MAX_REJECTIONS ? 'failed' : 'pending';
+
+        if (status === 'failed') {
+          failed++;
+        } else {
+          earliest = Math.min(earliest, nextAttemptAt);
+        }
+
+        await this.databaseService.run(
+          'UPDATE sync_outbox SET status = ?, attempts = ?, rejections = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+          [status, attempts, rejections, nextAttemptAt, error.substring(0, 500), item.id]
+        );
+      }
+    });
+
+    if (failed > 0) {
+      this.logger.warn(`Gave up on ${failed} sync outbox item(s) after repeated failures: ${error}`);
+    }
+
+    return Number.isFinite(earliest) ? earliest : now + BASE_RETRY_DELAY_MS;
+  }
+
+  public async getStatus(): Promise<OutboxStatus> {
+    const rows = await this.databaseService.query(
+      `SELECT status, kind, COUNT(*) AS count, MIN(created_at) AS oldest, MIN(next_attempt_at) AS next
+       FROM sync_outbox GROUP BY status, kind`
+    );
+
+    const status: OutboxStatus = {
+      pending: { usage_event: 0, security_alert: 0 },
+      failed: { usage_event: 0, security_alert: 0 },
+      oldestCreatedAt: null,
+      nextAttemptAt: null
+    };
+
+    for (const row of rows) {
+      if (row.status === 'failed') {
+        status.failed[row.kind as OutboxKind] = row.count;
+        continue;
+      }
+
+      status.pending[row.kind as OutboxKind] = row.count;
+      status.oldestCreatedAt = status.oldestCreatedAt === null ? row.oldest : Math.min(status.oldestCreatedAt, row.oldest);
+      status.nextAttemptAt = status.nextAttemptAt === null ? row.next : Math.min(status.nextAttemptAt, row.next);
+    }
+
+    return status;
+  }
+}
\ No newline at end of file
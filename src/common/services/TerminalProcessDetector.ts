@@ -0,0 +1,368 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ConfigService } from './ConfigService';
+import { ActiveWindowInfo } from './ActiveWindowProvider';
+import { SensitiveDataRegistry } from './SensitiveDataRegistry';
+import { AIToolRegistry } from './AIToolRegistry';
+
+/**
+ * An AI CLI running under a terminal emulator. The command line is redacted
+ * before it leaves this module: prompt text and credentials passed as
+ * arguments are replaced with placeholders.
+ */
+export interface TerminalAISession {
+  id: string; // "<pid>:<start ticks>", stable for the life of the process
+  tool: string; // Canonical catalog id
+  toolName: string;
+  command: string;
+  pid: number;
+  terminalPid: number;
+  terminalApp: string;
+  windowTitle: string | null; // Known once the owning terminal window has been focused
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface TerminalSessionChange {
+  type: 'started' | 'ended' | 'window';
+  session: TerminalAISession;
+}
+
+interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  comm: string;
+  startTicks: number;
+}
+
+// Keyed by /proc comm, which the kernel truncates to 15 characters
+export const TERMINAL_EMULATORS: Record<string, string> = {
+  'gnome-terminal-': 'GNOME Terminal',
+  'kgx': 'GNOME Console',
+  'ptyxis-agent': 'Ptyxis',
+  'konsole': 'Konsole',
+  'kitty': 'kitty',
+  'alacritty': 'Alacritty',
+  'wezterm-gui': 'WezTerm',
+  'ghostty': 'Ghostty',
+  'foot': 'foot',
+  'xterm': 'XTerm',
+  'urxvt': 'urxvt',
+  'st': 'st',
+  'tilix': 'Tilix',
+  'terminator': 'Terminator',
+  'xfce4-terminal': 'Xfce Terminal',
+  'mate-terminal': 'MATE Terminal',
+  'lxterminal': 'LXTerminal',
+  'qterminal': 'QTerminal',
+  'terminology': 'Terminology',
+  'tmux: server': 'tmux',
+  'code': 'VS Code'
+};
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_ANCESTRY_DEPTH = 32;
+const MAX_COMMAND_LENGTH = 256;
+// /proc reports start times in USER_HZ, which Linux fixes at 100 for userspace
+const CLOCK_TICKS_PER_SECOND = 100;
+const SECRET_FLAG = /^--?([a-z]+[-_])*(api[-_]?key|key|token|secret|password|passwd)$/i;
+const SECRET_ASSIGNMENT = /^([A-Z0-9_]*(KEY|TOKEN|SECRET|PASSWORD)[A-Z0-9_]*)=.+$/i;
+
+/**
+ * Parses /proc/<pid>/stat. The command name is parenthesised and may itself
+ * contain spaces and parentheses, so fields are counted from the last ")".
+ */
+export function parseProcStat(content: string): Omit<ProcessEntry, 'pid'> | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) {
+    return null;
+  }
+
+  // Fields after the name start at state (field 3); ppid is 4 and starttime 22
+  const fields = content.slice(close + 2).split(' ');
+  const ppid = Number(fields[1]);
+  const startTicks = Number(fields[19]);
+  if (!Number.isInteger(ppid) || !Number.isFinite(startTicks)) {
+    return null;
+  }
+
+  return { comm: content.slice(open + 1, close), ppid, startTicks };
+}
+
+function programName(arg: string): string {
+  return path.basename(arg).replace(/\.(c?js|mjs|py|exe)$/i, '');
+}
+
+export class TerminalProcessDetector {
+  private static instance: TerminalProcessDetector;
+  private logger: Logger;
+  private configService: ConfigService;
+  private detectorRegistry: SensitiveDataRegistry;
+  private toolRegistry: AIToolRegistry;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private sessions = new Map<string, TerminalAISession>();
+  private listeners: Array<(change: TerminalSessionChange) => void> = [];
+  private bootTime: number | null = null;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.configService = ConfigService.getInstance();
+    this.detectorRegistry = SensitiveDataRegistry.getInstance();
+    this.toolRegistry = AIToolRegistry.getInstance();
+  }
+
+  public static getInstance(): TerminalProcessDetector {
+    if (!TerminalProcessDetector.instance) {
+      TerminalProcessDetector.instance = new TerminalProcessDetector();
+    }
+    return TerminalProcessDetector.instance;
+  }
+
+  public static isSupported(): boolean {
+    return process.platform === 'linux' && fs.existsSync('/proc/self/stat');
+  }
+
+  public onSessionChange(listener: (change: TerminalSessionChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  public start(): void {
+    if (this.pollTimer || !this.configService.get<boolean>('monitoring.terminalProcesses', true)) {
+      return;
+    }
+    if (!TerminalProcessDetector.isSupported()) {
+      this.logger.info('Terminal process detection needs /proc, not available on this platform');
+      return;
+    }
+
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.logger.info('Terminal process detector started');
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Terminal process detector stopped');
+    }
+
+    // Stopping monitoring ends what we can vouch for, even if the CLI keeps running
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      this.emit({ type: 'ended', session: { ...session, endedAt: now } });
+    }
+    this.sessions.clear();
+  }
+
+  public getActiveSessions(): TerminalAISession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Returns the newest AI session running under the focused window's
+   * terminal. Terminals that serve several windows from one process (GNOME
+   * Terminal, kitty) share a PID, so the match is per terminal process.
+   */
+  public findSessionForWindow(window: ActiveWindowInfo | null): TerminalAISession | null {
+    if (!window?.pid) {
+      return null;
+    }
+
+    let newest: TerminalAISession | null = null;
+    for (const session of this.sessions.values()) {
+      if (session.terminalPid === window.pid && (!newest || session.startedAt > newest.startedAt)) {
+        newest = session;
+      }
+    }
+
+    if (newest && newest.windowTitle !== window.title) {
+      newest.windowTitle = window.title;
+      this.emit({ type: 'window', session: { ...newest } });
+    }
+    return newest;
+  }
+
+  private poll(): void {
+    try {
+      const processes = this.readProcessTable();
+      const seen = new Set<string>();
+
+      for (const entry of processes.values()) {
+        const session = this.describeSession(entry, processes);
+        if (!session) continue;
+
+        seen.add(session.id);
+        if (!this.sessions.has(session.id)) {
+          this.sessions.set(session.id, session);
+          this.logger.info(`${session.toolName} started in ${session.terminalApp} (pid ${session.pid})`);
+          this.emit({ type: 'started', session: { ...session } });
+        }
+      }
+
+      const now = Date.now();
+      for (const [id, session] of this.sessions) {
+        if (!seen.has(id)) {
+          this.sessions.delete(id);
+          this.logger.info(`${session.toolName} exited (pid ${session.pid})`);
+          this.emit({ type: 'ended', session: { ...session, endedAt: now } });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to inspect terminal processes:', error);
+    }
+  }
+
+  private readProcessTable(): Map<number, ProcessEntry> {
+    const processes = new Map<number, ProcessEntry>();
+
+    for (const name of fs.readdirSync('/proc')) {
+      const pid = Number(name);
+      if (!Number.isInteger(pid)) continue;
+
+      try {
+        const stat = parseProcStat(fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+        if (stat) {
+          processes.set(pid, { pid, ...stat });
+        }
+      } catch {
+        // Exited between listing and reading
+      }
+    }
+
+    return processes;
+  }
+
+  private describeSession(entry: ProcessEntry, processes: Map<number, ProcessEntry>): TerminalAISession | null {
+    // Cheap ancestry walk first: only processes inside a terminal have their argv read
+    const ancestors: ProcessEntry[] = [];
+    let terminal: ProcessEntry | null = null;
+    let current = processes.get(entry.ppid);
+
+    while (current && ancestors.length < MAX_ANCESTRY_DEPTH) {
+      if (TERMINAL_EMULATORS[current.comm]) {
+        terminal = current;
+        break;
+      }
+      ancestors.push(current);
+      current = processes.get(current.ppid);
+    }
+    if (!terminal) {
+      return null;
+    }
+
+    const catalog = this.toolRegistry.getCatalog();
+    const argv = this.readArgv(entry.pid);
+    const tool = argv ? catalog.matchProcess(argv) : null;
+    if (!argv || !tool) {
+      return null;
+    }
+
+    // Helpers an AI CLI spawns (a nested node, git) belong to the outer session
+    if (ancestors.some(ancestor => {
+      const ancestorArgv = this.readArgv(ancestor.pid);
+      return !!ancestorArgv && catalog.matchProcess(ancestorArgv) !== null;
+    })) {
+      return null;
+    }
+
+    return {
+      id: `${entry.pid}:${entry.startTicks}`,
+      tool: tool.id,
+      toolName: tool.name,
+      command: this.redactCommandLine(argv),
+      pid: entry.pid,
+      terminalPid: terminal.pid,
+      terminalApp: TERMINAL_EMULATORS[terminal.comm],
+      windowTitle: null,
+      startedAt: this.toEpochMs(entry.startTicks),
+      endedAt: null
+    };
+  }
+
+  private readArgv(pid: number): string[] | null {
+    try {
+      const raw = fs.readFileSync(`/proc/${pid}/cmdline`, 'utf8');
+      const argv = raw.split('\0');
+      if (argv[argv.length - 1] === '') argv.pop();
+      return argv.length > 0 ? argv : null;
+    } catch {
+      // Another user's process or already exited
+      return null;
+    }
+  }
+
+  /**
+   * Keeps the shape of the command (tool, subcommands, flags) and drops what
+   * the user typed into it: free-text prompts, credential flags and anything
+   * the sensitive data detectors recognise.
+   */
+  private redactCommandLine(argv: string[]): string {
+    const parts = [programName(argv[0])];
+    let redactNext = false;
+
+    for (const arg of argv.slice(1)) {
+      if (redactNext) {
+        parts.push('[REDACTED]');
+        redactNext = false;
+        continue;
+      }
+
+      const assignment = arg.match(/^(--?[^=\s]+)=(.*)$/);
+      if (assignment && SECRET_FLAG.test(assignment[1])) {
+        parts.push(`${assignment[1]}=[REDACTED]`);
+      } else if (SECRET_FLAG.test(arg)) {
+        parts.push(arg);
+        redactNext = true;
+      } else if (SECRET_ASSIGNMENT.test(arg)) {
+        parts.push(`${arg.slice(0, arg.indexOf('='))}=[REDACTED]`);
+      } else if (/\s/.test(arg)) {
+        parts.push(`[PROMPT_${arg.length}_CHARS]`);
+      } else {
+        parts.push(arg);
+      }
+    }
+
+    const command = parts.join(' ');
+    let redacted = '';
+    let cursor = 0;
+    for (const finding of this.detectorRegistry.scan(command)) {
+      if (finding.start < cursor) continue;
+      const label = finding.type.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+      redacted += command.substring(cursor, finding.start) + `[${label}_REDACTED]`;
+      cursor = finding.end;
+    }
+    redacted += command.substring(cursor);
+
+    return redacted.length > MAX_COMMAND_LENGTH ? `${redacted.substring(0, MAX_COMMAND_LENGTH)}...` : redacted;
+  }
+
+  private toEpochMs(startTicks: number): number {
+    if (this.bootTime === null) {
+      try {
+        const btime = fs.readFileSync('/proc/stat', 'utf8').match(/^btime (\d+)$/m);
+        this.bootTime = btime ? Number(btime[1]) * 1000 : 0;
+      } catch {
+        this.bootTime = 0;
+      }
+    }
+
+    // Without a boot time the first sighting is the best start estimate
+    return this.bootTime ? this.bootTime + Math.round(startTicks * 1000 / CLOCK_TICKS_PER_SECOND) : Date.now();
+  }
+
+  private emit(change: TerminalSessionChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error('Terminal session listener failed:', error);
+      }
+    }
+  }
+}
\ No newline at end of file
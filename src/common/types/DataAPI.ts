@@ -0,0 +1,125 @@
+import { Suggestion, LearningOpportunity } from '../services/AIContentAnalyzer';
+import { DetectorCategory, FindingSeverity } from '../services/SensitiveDataDetectors';
+
+// Shared contract between the main process data handlers and the renderer
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+export type PromptQuality = 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface TimeRangeQuery {
+  from?: number; // epoch ms, inclusive
+  to?: number; // epoch ms, exclusive
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface UsageSummary {
+  from: number | null;
+  to: number | null;
+  totalEvents: number;
+  totalTokens: number;
+  totalCost: number;
+  byTool: Array<{ tool: string; events: number; tokens: number; cost: number }>;
+  analyses: number;
+  riskCounts: Record<RiskLevel, number>;
+}
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical' | 'info' | 'warning' | 'error';
+
+export interface AlertQuery extends TimeRangeQuery, PageQuery {
+  resolved?: boolean;
+  type?: string;
+  severity?: AlertSeverity;
+}
+
+export interface AlertRecord {
+  id: number;
+  type: string;
+  severity: AlertSeverity;
+  message: string;
+  data: Record<string, any>;
+  resolved: boolean;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface SessionQuery extends TimeRangeQuery, PageQuery {}
+
+export interface SessionRecord {
+  id: number;
+  startTime: string;
+  endTime: string | null;
+  totalUsage: number;
+  totalCost: number;
+  analyses: number;
+}
+
+export interface TerminalSessionQuery extends TimeRangeQuery, PageQuery {
+  tool?: string;
+  active?: boolean; // true for sessions still running, false for ended ones
+}
+
+export interface TerminalSessionRecord {
+  id: string;
+  tool: string;
+  command: string; // Redacted: prompts and credentials are replaced with placeholders
+  pid: number;
+  terminalApp: string;
+  terminalPid: number;
+  windowTitle: string | null;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface AnalysisQuery extends TimeRangeQuery, PageQuery {
+  aiTool?: string;
+  riskLevels?: RiskLevel[];
+  dataType?: string;
+}
+
+export interface StoredFinding {
+  dataType: string;
+  category: DetectorCategory;
+  severity: FindingSeverity;
+  occurrences: number;
+  maxConfidence: number;
+  providers: string[];
+}
+
+export interface StoredAnalysis {
+  id: number;
+  sessionId: number | null;
+  aiTool: string | null;
+  riskLevel: RiskLevel;
+  promptQuality: PromptQuality;
+  sensitiveDataDetected: boolean;
+  contentHash: string | null;
+  ocrConfidence: number | null;
+  suggestions: Suggestion[];
+  learningOpportunity: LearningOpportunity | null;
+  analyzedAt: number;
+  findings: StoredFinding[];
+}
+
+export interface DataAPI {
+  getUsageSummary: (query?: TimeRangeQuery) => Promise<UsageSummary>;
+  listAlerts: (query?: AlertQuery) => Promise<AlertRecord[]>;
+  resolveAlert: (id: number) => Promise<boolean>;
+  getSessionHistory: (query?: SessionQuery) => Promise<SessionRecord[]>;
+  listTerminalSessions: (query?: TerminalSessionQuery) => Promise<TerminalSessionRecord[]>;
+  listAnalyses: (query?: AnalysisQuery) => Promise<StoredAnalysis[]>;
+  getAnalysis: (id: number) => Promise<StoredAnalysis | null>;
+}
+
+export const DATA_API_CHANNELS: Record<keyof DataAPI, string> = {
+  getUsageSummary: 'data:getUsageSummary',
+  listAlerts: 'data:listAlerts',
+  resolveAlert: 'data:resolveAlert',
+  getSessionHistory: 'data:getSessionHistory',
+  listTerminalSessions: 'data:listTerminalSessions',
+  listAnalyses: 'data:listAnalyses',
+  getAnalysis: 'data:getAnalysis'
+};
@@ -0,0 +1,156 @@
+import {
+  AlertQuery,
+  AlertSeverity,
+  AnalysisQuery,
+  RiskLevel,
+  SessionQuery,
+  TerminalSessionQuery,
+  TimeRangeQuery
+} from '../types/DataAPI';
+
+// Renderer input is untrusted: every data API argument is checked here and
+// unknown fields are dropped before anything reaches a repository.
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const ALERT_SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high', 'critical', 'info', 'warning', 'error'];
+const IDENTIFIER = /^[A-Za-z0-9_.:-]{1,64}$/;
+const TOOL_NAME = /^[A-Za-z0-9_.:-][A-Za-z0-9_.: -]{0,63}$/; // Display names such as "Claude Code"
+const MAX_TIMESTAMP = 8.64e15; // The last millisecond a Date can hold; later ones cannot be turned into ISO strings
+
+export class DataAPIValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataAPIValidationError';
+  }
+}
+
+function asObject(input: unknown, name: string): Record<string, unknown> {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new DataAPIValidationError(`${name} must be an object`);
+  }
+  return input as Record<string, unknown>;
+}
+
+function optionalInteger(value: unknown, field: string, min: number, max = Number.MAX_SAFE_INTEGER): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new DataAPIValidationError(`${field} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function optionalIdentifier(value: unknown, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !IDENTIFIER.test(value)) {
+    throw new DataAPIValidationError(`${field} must be a short identifier`);
+  }
+  return value;
+}
+
+function optionalToolName(value: unknown, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !TOOL_NAME.test(value)) {
+    throw new DataAPIValidationError(`${field} must be a tool name`);
+  }
+  return value;
+}
+
+function optionalEnum<T extends string>(value: unknown, field: string, allowed: T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new DataAPIValidationError(`${field} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+export function validateTimeRange(input: unknown, name = 'query'): TimeRangeQuery {
+  const query = asObject(input, name);
+  const from = optionalInteger(query.from, 'from', 0, MAX_TIMESTAMP);
+  const to = optionalInteger(query.to, 'to', 0, MAX_TIMESTAMP);
+
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new DataAPIValidationError('from must not be after to');
+  }
+
+  return { from, to };
+}
+
+function validatePage(query: Record<string, unknown>): { limit?: number; offset?: number } {
+  return {
+    limit: optionalInteger(query.limit, 'limit', 1, 500),
+    offset: optionalInteger(query.offset, 'offset', 0)
+  };
+}
+
+export function validateAlertQuery(input: unknown): AlertQuery {
+  const query = asObject(input, 'alert query');
+
+  if (query.resolved !== undefined && typeof query.resolved !== 'boolean') {
+    throw new DataAPIValidationError('resolved must be a boolean');
+  }
+
+  return {
+    ...validateTimeRange(query, 'alert query'),
+    ...validatePage(query),
+    resolved: query.resolved as boolean | undefined,
+    type: optionalIdentifier(query.type, 'type'),
+    severity: optionalEnum(query.severity, 'severity', ALERT_SEVERITIES)
+  };
+}
+
+export function validateSessionQuery(input: unknown): SessionQuery {
+  const query = asObject(input, 'session query');
+  return {
+    ...validateTimeRange(query, 'session query'),
+    ...validatePage(query)
+  };
+}
+
+export function validateTerminalSessionQuery(input: unknown): TerminalSessionQuery {
+  const query = asObject(input, 'terminal session query');
+
+  if (query.active !== undefined && typeof query.active !== 'boolean') {
+    throw new DataAPIValidationError('active must be a boolean');
+  }
+
+  return {
+    ...validateTimeRange(query, 'terminal session query'),
+    ...validatePage(query),
+    tool: optionalToolName(query.tool, 'tool'),
+    active: query.active as boolean | undefined
+  };
+}
+
+export function validateAnalysisQuery(input: unknown): AnalysisQuery {
+  const query = asObject(input, 'analysis query');
+
+  let riskLevels: RiskLevel[] | undefined;
+  if (query.riskLevels !== undefined) {
+    if (!Array.isArray(query.riskLevels)) {
+      throw new DataAPIValidationError('riskLevels must be an array');
+    }
+    riskLevels = query.riskLevels.map(level => {
+      if (typeof level !== 'string' || !RISK_LEVELS.includes(level as RiskLevel)) {
+        throw new DataAPIValidationError(`riskLevels must contain only ${RISK_LEVELS.join(', ')}`);
+      }
+      return level as RiskLevel;
+    });
+  }
+
+  return {
+    ...validateTimeRange(query, 'analysis query'),
+    ...validatePage(query),
+    aiTool: optionalIdentifier(query.aiTool, 'aiTool'),
+    dataType: optionalIdentifier(query.dataType, 'dataType'),
+    riskLevels
+  };
+}
+
+export function validateId(input: unknown, name = 'id'): number {
+  const id = optionalInteger(input, name, 1);
+  if (id === undefined) {
+    throw new DataAPIValidationError(`${name} is required`);
+  }
+  return id;
+}
\ No newline at end of file
@@ -0,0 +1,230 @@
+import lexicon from '../data/ner-lexicon.json';
+
+// Rule-based named-entity recognition for OCR text. Precision comes from
+// the lexicon and from cue words; anything ambiguous is left for the model.
+
+export type EntityType = 'personName' | 'organization' | 'postalAddress' | 'dateOfBirth';
+
+export interface RecognizedEntity {
+  type: EntityType;
+  start: number;
+  end: number;
+  value: string;
+  confidence: number;
+}
+
+// Capitalised words that start sentences and UI labels far more often than they are part of a name
+const NOT_NAME_WORDS = [
+  'The', 'This', 'That', 'These', 'Those', 'And', 'Or', 'But', 'If', 'In', 'On', 'At', 'To', 'For',
+  'From', 'With', 'By', 'Is', 'Are', 'Was', 'Can', 'Could', 'Would', 'Should', 'Will', 'Please',
+  'Thanks', 'Thank', 'Hi', 'Hello', 'Dear', 'Your', 'My', 'Our', 'Their', 'New', 'Chat', 'Copy',
+  'Edit', 'Share', 'Search', 'Help', 'Settings', 'Today', 'Yesterday', 'Street', 'Road', 'Avenue',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'June', 'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const WORD_END = '(?![\\p{L}\\d])';
+const NAME_START = '(?<![\\p{L}\\d])';
+const CAP_WORD = `(?!(?:${NOT_NAME_WORDS.join('|')})${WORD_END})(?:\\p{Lu}['’])?\\p{Lu}\\p{Ll}+(?:\\p{Lu}\\p{Ll}+)?(?:-\\p{Lu}\\p{Ll}+)?${WORD_END}`;
+const SURNAME_PARTICLE = '(?:van der|van den|van|von|de la|de|da|del|della|di|du|le|la|ter|ten|bin|al)';
+const SURNAME = `(?:${SURNAME_PARTICLE} )?${CAP_WORD}`;
+const GIVEN_NAME = `(?:${alternation(lexicon.givenNames)})${WORD_END}`;
+const GIVEN_NAMES = new RegExp(`^${GIVEN_NAME}`, 'u');
+
+const TITLED_NAME = new RegExp(
+  `${NAME_START}(?:Mr|Mrs|Ms|Mx|Miss|Dr|Prof|Sir|Dame|Herr|Frau|Mme|Mlle|Sr|Sra)\\.? (${CAP_WORD}(?: ${CAP_WORD})?(?: ${SURNAME})?)`,
+  'gu'
+);
+const GIVEN_AND_SURNAME = new RegExp(
+  `${NAME_START}${GIVEN_NAME}(?: (?:\\p{Lu}\\.|${CAP_WORD}))? ${SURNAME}`,
+  'gu'
+);
+const CUED_NAME = new RegExp(
+  `${NAME_START}(?:${anyCase(['full name', 'name', 'customer', 'client', 'patient', 'employee', 'applicant', 'account holder', 'contact', 'recipient', 'sender', 'dear', 'hi', 'hello'])})\\s*[:,-]?\\s+(${CAP_WORD}(?: ${SURNAME}){0,2})`,
+  'gu'
+);
+
+const ORG_WORD = "(?:\\p{Lu}[\\p{L}\\d&'.-]*)";
+const ORG_SUFFIX = alternation(lexicon.organizationSuffixes);
+const ORG_HEAD = alternation(lexicon.organizationHeads);
+// Leading words that belong to the sentence, not the company ("Our Company", "The Acme Corp")
+const ORG_LEAD = new RegExp(`^(?:(?:${NOT_NAME_WORDS.join('|')}|A|An|Any|Every|Each)\\s+)+`);
+const SUFFIXED_ORG = new RegExp(
+  `${NAME_START}(${ORG_WORD}(?:\\s+(?:(?:&|and|of|und|et)\\s+)?${ORG_WORD}){0,4}),?\\s+(?:${ORG_SUFFIX})(?![\\p{L}\\d])`,
+  'gu'
+);
+const HEADED_ORG = new RegExp(
+  `${NAME_START}(?:(?:${ORG_HEAD}) of(?: the)? ${CAP_WORD}(?: ${CAP_WORD}){0,2}|${CAP_WORD}(?: ${CAP_WORD}){0,2} (?:${ORG_HEAD}))(?![\\p{L}\\d])`,
+  'gu'
+);
+
+const STREET_TYPE = alternation(lexicon.streetTypes);
+const UK_POSTCODE = '[A-Z]{1,2}\\d[A-Z\\d]? ?\\d[A-Z]{2}';
+// Unit, town and postcode after the street make an address far more certain
+const LOCALITY = `(?:,?\\s+(?:Apt|Apartment|Suite|Ste|Unit|Flat)\\.?\\s*#?[\\w-]+)?` +
+  `(,\\s*(?:\\d{4,5}\\s+)?${CAP_WORD}(?:[\\s-]${CAP_WORD}){0,2}(?:,?\\s+(?:[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?|${UK_POSTCODE}|\\d{4,5}))?)?`;
+// Each ends with LOCALITY, whose last group holds the town and postcode when present
+const STREET_ADDRESSES: RegExp[] = [
+  // 221B Baker Street, London NW1 6XE
+  new RegExp(
+    `(?<![\\w-])\\d{1,5}[A-Za-z]?\\s+(?:[NSEW]\\.?\\s+)?(?:(?:${CAP_WORD}|\\d+(?:st|nd|rd|th))\\s+){1,3}(?:${STREET_TYPE})\\.?(?:\\s+(?:NW|NE|SW|SE|N|S|E|W)\\.?)?(?![\\p{L}\\d])${LOCALITY}`,
+    'gu'
+  ),
+  // Hauptstraße 5, 10115 Berlin / Berliner Straße 12a
+  new RegExp(
+    `${NAME_START}(?:(?:\\p{Lu}\\p{Ll}+[\\s-])?\\p{Lu}\\p{Ll}*(?:straße|strasse|str\\.|weg|gasse|platz|allee|damm|laan|straat|gracht|vej|gatan)|\\p{Lu}\\p{Ll}+\\s(?:Straße|Strasse|Str\\.|Weg|Gasse|Platz|Allee|Ring|Damm))\\s+\\d{1,4}\\s?[a-zA-Z]?(?![\\p{L}\\d])${LOCALITY}`,
+    'gu'
+  ),
+  // 12 rue de la Paix, 75002 Paris
+  new RegExp(
+    `(?<![\\w-])\\d{1,4}(?:\\s?(?:bis|ter))?,?\\s+(?:${anyCase(['rue', 'avenue', 'boulevard', 'bd', 'place', 'allée', 'chemin', 'impasse', 'quai'])})\\s+(?:(?:de|du|des|la|le|l'|d')\\s*)*${CAP_WORD}(?:[\\s-]${CAP_WORD}){0,3}${LOCALITY}`,
+    'gu'
+  ),
+  // Calle Mayor 12 / Via Roma 1
+  new RegExp(
+    `${NAME_START}(?:Calle|Avenida|Plaza|Carrer|Rua|Via|Viale|Piazza|Corso)\\s+(?:(?:de|del|della|di|da|do|dos)\\s+)*${CAP_WORD}(?:\\s+${CAP_WORD}){0,2},?\\s+\\d{1,4}[a-zA-Z]?(?![\\p{L}\\d])${LOCALITY}`,
+    'gu'
+  )
+];
+const PO_BOX = new RegExp(`${NAME_START}(?:P\\.?\\s?O\\.?\\s?Box|PO Box|Postfach|Apartado)\\s+\\d{1,6}(?!\\d)`, 'gu');
+
+const MONTH = '(?:jan(?:uary|uar)?|feb(?:ruary|ruar)?|mar(?:ch)?|märz|apr(?:il)?|may|mai|jun(?:e|i)?|jul(?:y|i)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|okt(?:ober)?|nov(?:ember)?|dec(?:ember)?|dez(?:ember)?|janvier|février|mars|avril|juin|juillet|août|septembre|octobre|novembre|décembre|enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre)\\.?';
+const DATE = `(?:\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[./-]\\d{1,2}[./-](?:\\d{4}|\\d{2})|\\d{1,2}(?:st|nd|rd|th)?\\.?\\s+${MONTH}\\s+\\d{4}|${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4})`;
+// Dates are everywhere on screen; only one introduced as a birth date counts
+const BIRTH_DATE = new RegExp(
+  `${NAME_START}(?:date of birth|birth ?date|d\\.?o\\.?b\\.?|born(?: on)?|geb\\.|geboren(?: am)?|née? le|fecha de nacimiento|data di nascita|date de naissance)\\s*[:\\-]?\\s*(${DATE})(?![\\d])`,
+  'giu'
+);
+
+export function recognizeEntities(text: string): RecognizedEntity[] {
+  if (!text) return [];
+
+  return resolveEntityOverlaps([
+    ...findPersonNames(text),
+    ...findOrganizations(text),
+    ...findPostalAddresses(text),
+    ...findDatesOfBirth(text)
+  ]);
+}
+
+/**
+ * Keeps the most confident entity wherever entities overlap, the longer one
+ * on a tie, and returns the survivors in text order.
+ */
+export function resolveEntityOverlaps(entities: RecognizedEntity[]): RecognizedEntity[] {
+  const ranked = [...entities].sort((a, b) =>
+    b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start)
+  );
+  const kept: RecognizedEntity[] = [];
+  for (const entity of ranked) {
+    if (!kept.some(other => entity.start < other.end && other.start < entity.end)) {
+      kept.push(entity);
+    }
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function findPersonNames(text: string): RecognizedEntity[] {
+  const entities: RecognizedEntity[] = [];
+
+  for (const match of text.matchAll(TITLED_NAME)) {
+    entities.push(groupEntity('personName', match, 1, 0.85));
+  }
+
+  for (const match of text.matchAll(GIVEN_AND_SURNAME)) {
+    entities.push(groupEntity('personName', match, 0, 0.75));
+  }
+
+  for (const match of text.matchAll(CUED_NAME)) {
+    // A known given name after the cue is near certain; an unknown single word could be anything
+    const known = GIVEN_NAMES.test(match[1]);
+    if (!known && !match[1].includes(' ')) continue;
+    entities.push(groupEntity('personName', match, 1, known ? 0.9 : 0.7));
+  }
+
+  return entities;
+}
+
+function findOrganizations(text: string): RecognizedEntity[] {
+  const entities: RecognizedEntity[] = [];
+
+  for (const match of text.matchAll(SUFFIXED_ORG)) {
+    const lead = ORG_LEAD.exec(`${match[1]} `)?.[0].length ?? 0;
+    if (lead > match[1].length) continue;
+
+    const start = (match.index ?? 0) + lead;
+    const value = match[0].substring(lead);
+    entities.push({ type: 'organization', start, end: start + value.length, value, confidence: 0.8 });
+  }
+
+  for (const match of text.matchAll(HEADED_ORG)) {
+    entities.push(groupEntity('organization', match, 0, 0.65));
+  }
+
+  return entities;
+}
+
+function findPostalAddresses(text: string): RecognizedEntity[] {
+  const entities: RecognizedEntity[] = [];
+
+  for (const pattern of STREET_ADDRESSES) {
+    for (const match of text.matchAll(pattern)) {
+      // A town or postcode after the street rules out most look-alikes
+      const hasLocality = match[match.length - 1] !== undefined;
+      entities.push(groupEntity('postalAddress', match, 0, hasLocality ? 0.85 : 0.65));
+    }
+  }
+
+  for (const match of text.matchAll(PO_BOX)) {
+    entities.push(groupEntity('postalAddress', match, 0, 0.7));
+  }
+
+  return entities;
+}
+
+function findDatesOfBirth(text: string): RecognizedEntity[] {
+  const entities: RecognizedEntity[] = [];
+
+  for (const match of text.matchAll(BIRTH_DATE)) {
+    if (!isPlausibleBirthDate(match[1])) continue;
+    entities.push(groupEntity('dateOfBirth', match, 1, 0.9));
+  }
+
+  return entities;
+}
+
+function isPlausibleBirthDate(value: string): boolean {
+  const numbers = (value.match(/\d+/g) || []).map(Number);
+  const year = numbers.find(number => number >= 1000);
+  if (year !== undefined && (year < 1900 || year > new Date().getFullYear())) {
+    return false;
+  }
+
+  // Numeric dates need a day and a month in either order
+  if (/^\d{1,2}[./-]\d{1,2}[./-]/.test(value)) {
+    const [first, second] = numbers;
+    return first >= 1 && second >= 1 && Math.min(first, second) <= 12 && Math.max(first, second) <= 31;
+  }
+  if (/^\d{4}-/.test(value)) {
+    return numbers[1] >= 1 && numbers[1] <= 12 && numbers[2] >= 1 && numbers[2] <= 31;
+  }
+  return numbers.some(number => number >= 1 && number <= 31);
+}
+
+function groupEntity(type: EntityType, match: RegExpMatchArray, group: number, confidence: number): RecognizedEntity {
+  const value = match[group];
+  const start = (match.index ?? 0) + (group === 0 ? 0 : match[0].lastIndexOf(value));
+  return { type, start, end: start + value.length, value, confidence };
+}
+
+function alternation(words: string[]): string {
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('|');
+}
+
+// Cue words in lower, title and upper case; the u flag makes \p{Lu} match lowercase under i
+function anyCase(words: string[]): string {
+  return words.flatMap(word => [word, word[0].toUpperCase() + word.slice(1), word.toUpperCase()]).join('|');
+}
\ No newline at end of file
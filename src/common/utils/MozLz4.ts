@@ -0,0 +1,64 @@
+const MOZLZ4_MAGIC = 'mozLz40\0';
+
+/**
+ * Decodes Firefox's mozlz4 container (session store, search engines): an
+ * 8-byte magic, the decompressed size as uint32 LE, then one raw LZ4 block.
+ */
+export function decodeMozLz4(data: Buffer): Buffer {
+  if (data.length < 12 || data.toString('latin1', 0, 8) !== MOZLZ4_MAGIC) {
+    throw new Error('Not a mozlz4 file');
+  }
+
+  const size = data.readUInt32LE(8);
+  return decodeLz4Block(data.subarray(12), size);
+}
+
+export function decodeLz4Block(input: Buffer, size: number): Buffer {
+  const output = Buffer.alloc(size);
+  let i = 0;
+  let o = 0;
+
+  const readLength = (length: number): number => {
+    if (length !== 15) return length;
+    let byte: number;
+    do {
+      if (i >= input.length) throw new Error('Truncated LZ4 block');
+      byte = input[i++];
+      length += byte;
+    } while (byte === 255);
+    return length;
+  };
+
+  while (i < input.length) {
+    const token = input[i++];
+
+    const literals = readLength(token >> 4);
+    if (i + literals > input.length || o + literals > size) {
+      throw new Error('Corrupt LZ4 block: literals overrun');
+    }
+    input.copy(output, o, i, i + literals);
+    i += literals;
+    o += literals;
+
+    // The last sequence carries literals only
+    if (i >= input.length) break;
+
+    const offset = input[i] | (input[i + 1] << 8);
+    i += 2;
+    if (offset === 0 || offset > o) {
+      throw new Error('Corrupt LZ4 block: bad match offset');
+    }
+
+    const matchLength = readLength(token & 0x0f) + 4;
+    if (o + matchLength > size) {
+      throw new Error('Corrupt LZ4 block: match overrun');
+    }
+
+    // Matches may overlap their own output, so copy byte by byte
+    for (let k = 0; k < matchLength; k++, o++) {
+      output[o] = output[o - offset];
+    }
+  }
+
+  return o === size ? output : output.subarray(0, o);
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+// Validators for structured identifiers. Each returns a confidence in [0, 1]
+// for a candidate match, or null when the candidate cannot be a real value.
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CY: 28, CZ: 24,
+  DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21,
+  HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, KW: 30, KZ: 20, LI: 21, LT: 20, LU: 20,
+  LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, QA: 29, RO: 24, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TR: 26, UA: 29
+};
+
+// Numbers the SSA has voided or that circulate as well-known examples
+const INVALID_SSNS = new Set(['078051120', '219099999', '123456789']);
+
+const SSN_CONTEXT = /\b(ssn|social\s+security|soc\.?\s*sec|tax\s*id|tin)\b/i;
+const PHONE_CONTEXT = /\b(phone|tel|mobile|cell|call|fax|whatsapp|contact)\b/i;
+const NON_PHONE_CONTEXT = /\b(order|invoice|ticket|ref|reference|id|tracking|account|po)\s*(no\.?|number|#)?\s*[:#]?\s*$/i;
+
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function precedingText(text: string, index: number, window = 30): string {
+  return text.substring(Math.max(0, index - window), index);
+}
+
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (digit < 0 || digit > 9) return false;
+
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+export function validateCreditCard(candidate: string): number | null {
+  const digits = digitsOnly(candidate);
+  if (digits.length < 13 || digits.length > 19) return null;
+  if (/^(\d)\1+$/.test(digits)) return null;
+  if (!luhnCheck(digits)) return null;
+
+  // Known issuer prefixes (Visa, Mastercard, Amex, Discover, JCB, Diners)
+  const knownIssuer =
+    (/^4/.test(digits) && [13, 16, 19].includes(digits.length)) ||
+    (/^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/.test(digits) && digits.length === 16) ||
+    (/^3[47]/.test(digits) && digits.length === 15) ||
+    (/^(6011|65|64[4-9])/.test(digits) && digits.length >= 16) ||
+    (/^35(2[89]|[3-8]\d)/.test(digits) && digits.length >= 16) ||
+    (/^3(0[0-5]|[68])/.test(digits) && digits.length >= 14);
+
+  return knownIssuer ? 0.95 : 0.6;
+}
+
+export function mod97(value: string): number {
+  // Process in chunks so long account numbers never overflow a double
+  let remainder = 0;
+  for (const char of value) {
+    const code = char >= 'A' && char <= 'Z' ? (char.charCodeAt(0) - 55).toString() : char;
+    remainder = Number(`${remainder}${code}`) % 97;
+  }
+  return remainder;
+}
+
+export function validateIBAN(candidate: string): number | null {
+  const iban = candidate.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return null;
+
+  const country = iban.substring(0, 2);
+  const expectedLength = IBAN_LENGTHS[country];
+  if (expectedLength !== undefined && iban.length !== expectedLength) return null;
+
+  const rearranged = iban.substring(4) + iban.substring(0, 4);
+  if (mod97(rearranged) !== 1) return null;
+
+  return expectedLength !== undefined ? 0.95 : 0.8;
+}
+
+export function validateSSN(candidate: string, text = '', index = 0): number | null {
+  const digits = digitsOnly(candidate);
+  if (digits.length !== 9) return null;
+
+  const area = Number(digits.substring(0, 3));
+  const group = Number(digits.substring(3, 5));
+  const serial = Number(digits.substring(5));
+
+  // SSA never issues area 000, 666 or 900-999, group 00 or serial 0000
+  if (area === 0 || area === 666 || area >= 900) return null;
+  if (group === 0 || serial === 0) return null;
+  if (INVALID_SSNS.has(digits)) return null;
+
+  const hasContext = SSN_CONTEXT.test(precedingText(text, index));
+  const dashed = /^\d{3}-\d{2}-\d{4}$/.test(candidate);
+
+  if (dashed) {
+    return hasContext ? 0.95 : 0.8;
+  }
+
+  // Bare or space-separated nine digit runs are usually other identifiers
+  return hasContext ? 0.75 : null;
+}
+
+export function validatePhone(candidate: string, text = '', index = 0): number | null {
+  const trimmed = candidate.trim();
+  const digits = digitsOnly(trimmed);
+  const before = precedingText(text, index);
+
+  if (NON_PHONE_CONTEXT.test(before)) return null;
+
+  const hasContext = PHONE_CONTEXT.test(before);
+
+  if (trimmed.startsWith('+')) {
+    // E.164: up to 15 digits, country code never starts with 0
+    if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) return null;
+    return hasContext ? 0.95 : 0.8;
+  }
+
+  // North American numbers without a country code
+  if (digits.length !== 10) return null;
+
+  const areaCode = digits.substring(0, 3);
+  const exchange = digits.substring(3, 6);
+  if (!/^[2-9]\d\d$/.test(areaCode) || !/^[2-9]\d\d$/.test(exchange)) return null;
+  if (/^(\d)\1+$/.test(digits)) return null;
+
+  const formatted = /[\s().-]/.test(trimmed);
+  if (!formatted) {
+    return hasContext ? 0.6 : null;
+  }
+
+  return hasContext ? 0.9 : 0.55;
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { TextRegion } from '../services/OCRService';
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLine {
+  text: string;
+  words: TextRegion[];
+  bbox: TextBox;
+}
+
+// Rebuilds reading-order lines from word boxes: words overlapping vertically share a line
+export function groupTextLines(regions: TextRegion[]): TextLine[] {
+  const words = [...regions].sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x);
+  const lines: Array<{ top: number; bottom: number; words: TextRegion[] }> = [];
+
+  for (const word of words) {
+    const center = word.bbox.y + word.bbox.height / 2;
+    const line = lines.find(candidate => center >= candidate.top && center <= candidate.bottom);
+    if (line) {
+      line.words.push(word);
+      line.top = Math.min(line.top, word.bbox.y);
+      line.bottom = Math.max(line.bottom, word.bbox.y + word.bbox.height);
+    } else {
+      lines.push({ top: word.bbox.y, bottom: word.bbox.y + word.bbox.height, words: [word] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => a.top - b.top)
+    .map(line => {
+      const sorted = line.words.sort((a, b) => a.bbox.x - b.bbox.x);
+      return {
+        text: sorted.map(word => word.text).join(' '),
+        words: sorted,
+        bbox: unionBoxes(sorted.map(word => word.bbox))
+      };
+    });
+}
+
+export function unionBoxes(boxes: TextBox[]): TextBox {
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
\ No newline at end of file
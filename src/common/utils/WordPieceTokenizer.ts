@@ -0,0 +1,86 @@
+export interface WordPieceToken {
+  id: number;
+  word: number; // Index of the source word; sub-word pieces share it
+  start: number; // Offsets of the whole source word in the input text
+  end: number;
+}
+
+const MAX_WORD_CHARS = 100; // Longer "words" are base64 blobs and the like, not language
+
+// Words are runs of letters, marks and digits; every other visible character stands alone
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+/**
+ * BERT-style WordPiece tokenizer for the bundled NER model. Only the parts
+ * token classification needs: each piece maps back to the word it came
+ * from, so labels can be put on spans of the original text.
+ */
+export class WordPieceTokenizer {
+  public readonly clsId: number;
+  public readonly sepId: number;
+  private vocab = new Map<string, number>();
+  private unkId: number;
+
+  constructor(vocabText: string, private lowercase = false) {
+    vocabText.split(/\r?\n/).forEach((token, index) => {
+      if (token) this.vocab.set(token, index);
+    });
+
+    this.clsId = this.requireToken('[CLS]');
+    this.sepId = this.requireToken('[SEP]');
+    this.unkId = this.requireToken('[UNK]');
+  }
+
+  public tokenize(text: string): WordPieceToken[] {
+    const tokens: WordPieceToken[] = [];
+    let word = 0;
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      for (const id of this.pieces(this.normalize(match[0]))) {
+        tokens.push({ id, word, start, end });
+      }
+      word++;
+    }
+
+    return tokens;
+  }
+
+  private pieces(word: string): number[] {
+    if (word.length > MAX_WORD_CHARS) {
+      return [this.unkId];
+    }
+
+    // Greedy longest match first, continuation pieces carry the ## prefix
+    const ids: number[] = [];
+    let start = 0;
+    while (start < word.length) {
+      let end = word.length;
+      let id: number | undefined;
+      while (end > start) {
+        id = this.vocab.get((start > 0 ? '##' : '') + word.substring(start, end));
+        if (id !== undefined) break;
+        end--;
+      }
+      if (id === undefined) {
+        return [this.unkId];
+      }
+      ids.push(id);
+      start = end;
+    }
+    return ids;
+  }
+
+  private normalize(word: string): string {
+    return this.lowercase ? word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '') : word;
+  }
+
+  private requireToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`Vocabulary is missing the ${token} token`);
+    }
+    return id;
+  }
+}
\ No newline at end of file
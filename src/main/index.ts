@@ -1,10 +1,27 @@
 import { app, BrowserWindow, ipcMain, Menu, Tray, globalShortcut, nativeImage } from 'electron';
 import * as path from 'path';
-import Store from 'electron-store';
 import { DatabaseService } from '../common/services/DatabaseService';
 import { MonitoringService } from '../common/services/MonitoringService';
 import { ConfigService } from '../common/services/ConfigService';
+import { DashboardSyncService } from '../common/services/DashboardSyncService';
+import { SecureStoreService } from '../common/services/SecureStoreService';
+import { ActivityRepository } from '../common/services/ActivityRepository';
+import { AnalysisRepository } from '../common/services/AnalysisRepository';
+import { ExtensionBridgeService, ExtensionTabUrlSource } from '../common/services/ExtensionBridgeService';
+import { BrowserUrlResolver } from '../common/services/BrowserUrlResolver';
+import { NotificationService } from '../common/services/NotificationService';
+import { RedactionVault } from '../common/services/RedactionVault';
+import { DATA_API_CHANNELS } from '../common/types/DataAPI';
 import { Logger } from '../common/utils/Logger';
+import {
+  DataAPIValidationError,
+  validateAlertQuery,
+  validateAnalysisQuery,
+  validateId,
+  validateSessionQuery,
+  validateTerminalSessionQuery,
+  validateTimeRange
+} from '../common/utils/DataAPIValidators';
 
 // Extend app with custom property
 declare global {
@@ -22,7 +39,10 @@ class DAMDesktopApp {
   private monitoringService: MonitoringService;
   private configService: ConfigService;
   private logger: Logger;
-  private secureStore: Store;
+  private secureStore: SecureStoreService;
+  private dashboardSyncService: DashboardSyncService;
+  private extensionBridge: ExtensionBridgeService;
+  private redactionVault: RedactionVault;
 
   constructor() {
     this.logger = Logger.getInstance();
@@ -30,12 +50,10 @@ class DAMDesktopApp {
     this.databaseService = DatabaseService.getInstance();
     this.monitoringService = MonitoringService.getInstance();
     
-    // Initialize secure store for API keys
-    this.secureStore = new Store({
-      name: 'dam-api-keys',
-      encryptionKey: 'dam-desktop-secure-key',
-      clearInvalidConfig: true
-    });
+    this.secureStore = SecureStoreService.getInstance();
+    this.dashboardSyncService = DashboardSyncService.getInstance();
+    this.extensionBridge = ExtensionBridgeService.getInstance();
+    this.redactionVault = RedactionVault.getInstance();
     
     this.initializeApp();
   }
@@ -231,6 +249,11 @@ class DAMDesktopApp {
       this.showQuickStats();
     });
 
+    // Put the real values back into a copied AI answer written with placeholders
+    globalShortcut.register('CommandOrControl+Alt+R', () => {
+      this.restoreClipboard();
+    });
+
     // Register test notification shortcut for debugging
     globalShortcut.register('CommandOrControl+Alt+T', () => {
       this.testNotification();
@@ -264,10 +287,8 @@ class DAMDesktopApp {
       return app.getVersion();
     });
 
-    // Database operations
-    ipcMain.handle('db:query', async (event, query: string, params?: any[]) => {
-      return await this.databaseService.query(query, params);
-    });
+    // Data access: named, validated endpoints only, the renderer never sends SQL
+    this.setupDataAPI();
 
     // Monitoring control
     ipcMain.handle('monitoring:start', () => {
@@ -285,8 +306,7 @@ class DAMDesktopApp {
     // API Key management
     ipcMain.handle('apikey:set', (event, service: string, key: string) => {
       try {
-        this.secureStore.set(`apikey.${service}`, key);
-        this.logger.info(`API key for ${service} stored securely`);
+        this.secureStore.setAPIKey(service, key);
         return true;
       } catch (error) {
         this.logger.error(`Failed to store API key for ${service}:`, error);
@@ -296,8 +316,7 @@ class DAMDesktopApp {
 
     ipcMain.handle('apikey:get', (event, service: string) => {
       try {
-        const key = this.secureStore.get(`apikey.${service}`, '');
-        return key;
+        return this.secureStore.getAPIKey(service);
       } catch (error) {
         this.logger.error(`Failed to retrieve API key for ${service}:`, error);
         return '';
@@ -306,20 +325,84 @@ class DAMDesktopApp {
 
     ipcMain.handle('apikey:clear', (event, service: string) => {
       try {
-        this.secureStore.delete(`apikey.${service}`);
-        this.logger.info(`API key for ${service} cleared`);
+        this.secureStore.clearAPIKey(service);
         return true;
       } catch (error) {
         this.logger.error(`Failed to clear API key for ${service}:`, error);
         throw error;
       }
     });
+
+    // Enterprise dashboard
+    ipcMain.handle('enterprise:setUserProfile', (event, profile: { email?: unknown; role?: unknown }) => {
+      const email = typeof profile?.email === 'string' && profile.email.trim() ? profile.email.trim() : null;
+      const role = typeof profile?.role === 'string' && profile.role.trim() ? profile.role.trim() : null;
+      this.configService.set('enterprise.userEmail', email);
+      this.configService.set('enterprise.userRole', role);
+      return true;
+    });
+
+    ipcMain.handle('enterprise:testConnection', () => {
+      return this.dashboardSyncService.testConnection();
+    });
+
+    ipcMain.handle('enterprise:syncStatus', () => {
+      return this.dashboardSyncService.getQueueStatus();
+    });
+
+    // Redaction vault
+    ipcMain.handle('redaction:restore', (event, text: unknown) => {
+      if (typeof text !== 'string') {
+        throw new Error('Text to restore must be a string');
+      }
+      return this.redactionVault.restore(text);
+    });
+
+    ipcMain.handle('redaction:restoreClipboard', () => {
+      return this.redactionVault.restoreClipboard();
+    });
+
+    ipcMain.handle('redaction:status', () => {
+      return this.redactionVault.getStatus();
+    });
+
+    ipcMain.handle('redaction:clear', () => {
+      this.redactionVault.clear();
+      return true;
+    });
+  }
+
+  private setupDataAPI(): void {
+    const activity = ActivityRepository.getInstance();
+    const analyses = AnalysisRepository.getInstance();
+
+    const handle = (channel: string, handler: (...args: unknown[]) => Promise<unknown>) => {
+      ipcMain.handle(channel, async (event, ...args: unknown[]) => {
+        try {
+          return await handler(...args);
+        } catch (error) {
+          this.logger.error(`Data API call ${channel} failed:`, error);
+          // Validation messages are safe to return, database errors are not
+          throw error instanceof DataAPIValidationError ? error : new Error('Data request failed');
+        }
+      });
+    };
+
+    handle(DATA_API_CHANNELS.getUsageSummary, (query) => activity.getUsageSummary(validateTimeRange(query)));
+    handle(DATA_API_CHANNELS.listAlerts, (query) => activity.listAlerts(validateAlertQuery(query)));
+    handle(DATA_API_CHANNELS.resolveAlert, (id) => activity.resolveAlert(validateId(id, 'alert id')));
+    handle(DATA_API_CHANNELS.getSessionHistory, (query) => activity.getSessionHistory(validateSessionQuery(query)));
+    handle(DATA_API_CHANNELS.listTerminalSessions, (query) => activity.listTerminalSessions(validateTerminalSessionQuery(query)));
+    handle(DATA_API_CHANNELS.listAnalyses, (query) => analyses.find(validateAnalysisQuery(query)));
+    handle(DATA_API_CHANNELS.getAnalysis, (id) => analyses.getById(validateId(id, 'analysis id')));
   }
 
   private async startBackgroundServices(): Promise<void> {
     try {
       await this.databaseService.initialize();
       await this.monitoringService.initialize();
+      this.dashboardSyncService.start();
+      await this.startExtensionBridge();
       
       // Start monitoring automatically if enabled
       if (this.configService.get('monitoring.autoStart', true)) {
@@ -332,6 +415,18 @@ class DAMDesktopApp {
     }
   }
 
+  private async startExtensionBridge(): Promise<void> {
+    try {
+      this.extensionBridge.setEventHandler(event => this.monitoringService.handleExtensionEvent(event));
+      await this.extensionBridge.start();
+      // Tabs reported by the extension beat session files and address bar OCR
+      BrowserUrlResolver.getInstance().addSource(new ExtensionTabUrlSource(this.extensionBridge), 'first');
+    } catch (error) {
+      // Screen monitoring still works without the extension
+      this.logger.error('Failed to start extension bridge:', error);
+    }
+  }
+
   private showMainWindow(): void {
     if (this.mainWindow) {
       this.mainWindow.show();
@@ -364,6 +459,29 @@ class DAMDesktopApp {
     this.logger.info('Quick stats requested');
   }
 
+  private async restoreClipboard(): Promise<void> {
+    try {
+      const result = this.redactionVault.restoreClipboard();
+      await NotificationService.getInstance().showNotification(result.restored > 0
+        ? {
+            type: 'success',
+            title: 'Real Values Restored',
+            message: `Replaced ${result.restored} placeholder(s) in your clipboard with the original values.`,
+            duration: 3000,
+            position: 'bottom-right'
+          }
+        : {
+            type: 'tip',
+            title: 'Nothing to Restore',
+            message: 'Your clipboard has no placeholders from this session. Copy the AI answer first.',
+            duration: 4000,
+            position: 'bottom-right'
+          });
+    } catch (error) {
+      this.logger.error('Failed to restore clipboard:', error);
+    }
+  }
+
   private async testNotification(): Promise<void> {
     this.logger.info('Test notification triggered');
     
@@ -442,6 +560,8 @@ class DAMDesktopApp {
     try {
       globalShortcut.unregisterAll();
       await this.monitoringService.stop();
+      this.dashboardSyncService.destroy();
+      await this.extensionBridge.stop();
       await this.databaseService.close();
       this.logger.info('App cleanup completed');
     } catch (error) {
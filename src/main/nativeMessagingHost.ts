@@ -0,0 +1,49 @@
+/**
+ * Native messaging host launched by the browser for the companion extension.
+ * It runs as plain Node (ELECTRON_RUN_AS_NODE) through the wrapper script
+ * that ExtensionBridgeService installs, and relays frames unchanged between
+ * the browser's stdio and the running app's bridge socket.
+ */
+import * as net from 'net';
+import { encodeNativeMessage } from '../common/services/NativeMessaging';
+
+function readSocketPath(): string | null {
+  const index = process.argv.indexOf('--socket');
+  return index >= 0 ? process.argv[index + 1] || null : null;
+}
+
+let failed = false;
+
+function failAndExit(error: string): void {
+  failed = true;
+  // Tell the extension why instead of letting the port disconnect silently
+  process.stdout.write(encodeNativeMessage({ type: 'error', error }), () => process.exit(1));
+}
+
+const socketPath = readSocketPath();
+
+if (!socketPath) {
+  failAndExit('Native host started without a bridge socket path');
+} else {
+  const socket = net.connect(socketPath);
+
+  socket.once('connect', () => {
+    // Both sides use the same length-prefixed framing, so bytes pass through untouched
+    process.stdin.pipe(socket);
+    socket.pipe(process.stdout);
+  });
+
+  socket.once('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+      failAndExit('DAM Desktop is not running');
+    } else {
+      failAndExit(`Bridge connection failed: ${error.message}`);
+    }
+  });
+
+  // The browser closes stdin when the extension disconnects the port
+  process.stdin.once('end', () => socket.end());
+  socket.once('close', () => {
+    if (!failed) process.exit(0);
+  });
+}
\ No newline at end of file
@@ -19,14 +19,32 @@ contextBridge.exposeInMainWorld('electronAPI', {
   quitApp: () => ipcRenderer.invoke('app:quit'),
   getVersion: () => ipcRenderer.invoke('app:version'),
   
-  // Database operations
-  dbQuery: (query: string, params?: any[]) => ipcRenderer.invoke('db:query', query, params),
+  // Data access (channel names mirror DATA_API_CHANNELS in src/common/types/DataAPI.ts;
+  // the preload is compiled on its own, so it cannot import them)
+  getUsageSummary: (query?: object) => ipcRenderer.invoke('data:getUsageSummary', query),
+  listAlerts: (query?: object) => ipcRenderer.invoke('data:listAlerts', query),
+  resolveAlert: (id: number) => ipcRenderer.invoke('data:resolveAlert', id),
+  getSessionHistory: (query?: object) => ipcRenderer.invoke('data:getSessionHistory', query),
+  listTerminalSessions: (query?: object) => ipcRenderer.invoke('data:listTerminalSessions', query),
+  listAnalyses: (query?: object) => ipcRenderer.invoke('data:listAnalyses', query),
+  getAnalysis: (id: number) => ipcRenderer.invoke('data:getAnalysis', id),
   
   // API Key management (secure storage)
   setAPIKey: (service: string, key: string) => ipcRenderer.invoke('apikey:set', service, key),
   getAPIKey: (service: string) => ipcRenderer.invoke('apikey:get', service),
   clearAPIKey: (service: string) => ipcRenderer.invoke('apikey:clear', service),
   
+  // Enterprise dashboard
+  setUserProfile: (profile: { email?: string; role?: string }) => ipcRenderer.invoke('enterprise:setUserProfile', profile),
+  testDashboardConnection: () => ipcRenderer.invoke('enterprise:testConnection'),
+  getSyncStatus: () => ipcRenderer.invoke('enterprise:syncStatus'),
+  
+  // Redaction vault
+  restoreRedacted: (text: string) => ipcRenderer.invoke('redaction:restore', text),
+  restoreClipboard: () => ipcRenderer.invoke('redaction:restoreClipboard'),
+  getRedactionVaultStatus: () => ipcRenderer.invoke('redaction:status'),
+  clearRedactionVault: () => ipcRenderer.invoke('redaction:clear'),
+  
   // Monitoring controls
   startMonitoring: () => ipcRenderer.invoke('monitoring:start'),
   stopMonitoring: () => ipcRenderer.invoke('monitoring:stop'),
@@ -45,6 +63,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('cost:optimization', (event, data) => callback(data));
   },
   
+  onPoliciesUpdated: (callback: (policies: any[]) => void) => {
+    ipcRenderer.on('policies:updated', (event, policies) => callback(policies));
+  },
+  
   // Remove event listeners
   removeAllListeners: (channel: string) => {
     ipcRenderer.removeAllListeners(channel);
@@ -65,16 +87,30 @@ declare global {
       closeWindow: () => Promise<void>;
       quitApp: () => Promise<void>;
       getVersion: () => Promise<string>;
-      dbQuery: (query: string, params?: any[]) => Promise<any>;
+      getUsageSummary: (query?: object) => Promise<any>;
+      listAlerts: (query?: object) => Promise<any[]>;
+      resolveAlert: (id: number) => Promise<boolean>;
+      getSessionHistory: (query?: object) => Promise<any[]>;
+      listTerminalSessions: (query?: object) => Promise<any[]>;
+      listAnalyses: (query?: object) => Promise<any[]>;
+      getAnalysis: (id: number) => Promise<any>;
       setAPIKey: (service: string, key: string) => Promise<void>;
       getAPIKey: (service: string) => Promise<string>;
       clearAPIKey: (service: string) => Promise<void>;
+      setUserProfile: (profile: { email?: string; role?: string }) => Promise<boolean>;
+      testDashboardConnection: () => Promise<boolean>;
+      getSyncStatus: () => Promise<any>;
+      restoreRedacted: (text: string) => Promise<{ text: string; restored: number }>;
+      restoreClipboard: () => Promise<{ text: string; restored: number }>;
+      getRedactionVaultStatus: () => Promise<any>;
+      clearRedactionVault: () => Promise<boolean>;
       startMonitoring: () => Promise<void>;
       stopMonitoring: () => Promise<void>;
       getMonitoringStatus: () => Promise<any>;
       onMonitoringUpdate: (callback: (data: any) => void) => void;
       onUsageAlert: (callback: (data: any) => void) => void;
       onCostOptimization: (callback: (data: any) => void) => void;
+      onPoliciesUpdated: (callback: (policies: any[]) => void) => void;
       removeAllListeners: (channel: string) => void;
     };
   }
@@ -13,7 +13,7 @@ import theme from './styles/theme';
 
 export const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<'home' | 'dashboard' | 'settings'>('home');
-  const { monitoringStatus } = useMonitoring();
+  const { monitoringStatus, captureStatus } = useMonitoring();
   const version = useAppVersion();
 
   const renderCurrentView = () => {
@@ -45,7 +45,12 @@ export const App: React.FC = () => {
         </Box>
         <Box sx={{ p: 1, textAlign: 'right', borderTop: '1px solid #ddd' }}>
           <span style={{ marginRight: '16px' }}>v{version}</span>
-          <span>{monitoringStatus ? 'Monitoring Active' : 'Monitoring Inactive'}</span>
+          <span title={monitoringStatus && captureStatus ? captureStatus.reason : undefined}>
+            {monitoringStatus ? 'Monitoring Active' : 'Monitoring Inactive'}
+            {monitoringStatus && captureStatus && (captureStatus.intervalMs === null
+              ? ' · paused'
+              : ` · every ${Math.round(captureStatus.intervalMs / 1000)}s`)}
+          </span>
         </Box>
       </Box>
     </ThemeProvider>
@@ -39,7 +39,10 @@ export const EnhancedApp: React.FC = () => {
     // Load user profile from localStorage
     const saved = localStorage.getItem('damUserProfile');
     if (saved) {
-      setUserProfile(JSON.parse(saved));
+      const profile: UserProfile = JSON.parse(saved);
+      setUserProfile(profile);
+      // Profiles saved before main tracked them, or after its config was reset, would otherwise stay unknown there
+      window.electronAPI.setUserProfile({ email: profile.email, role: profile.role });
     }
     // Load theme preference
     const savedTheme = localStorage.getItem('damTheme');
@@ -57,6 +60,8 @@ export const EnhancedApp: React.FC = () => {
   const saveProfile = (profile: UserProfile) => {
     setUserProfile(profile);
     localStorage.setItem('damUserProfile', JSON.stringify(profile));
+    // The main process attributes dashboard events and role-scoped policies to this profile
+    window.electronAPI.setUserProfile({ email: profile.email, role: profile.role });
   };
 
   const handleRecommendationClick = (recommendation: string) => {
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
+import { CaptureSchedulerStatus } from '../../common/services/CaptureScheduler';
 
 export const useMonitoring = () => {
   const [monitoringStatus, setMonitoringStatus] = useState(false);
+  const [captureStatus, setCaptureStatus] = useState<CaptureSchedulerStatus | null>(null);
 
   useEffect(() => {
     // Initialize monitoring status
@@ -10,6 +12,7 @@ export const useMonitoring = () => {
     // Listen for monitoring updates
     window.electronAPI.onMonitoringUpdate((data) => {
       setMonitoringStatus(data.active);
+      setCaptureStatus(data.capture ?? null);
     });
 
     return () => {
@@ -21,6 +24,7 @@ export const useMonitoring = () => {
     try {
       const status = await window.electronAPI.getMonitoringStatus();
       setMonitoringStatus(status.active);
+      setCaptureStatus(status.capture ?? null);
     } catch (error) {
       console.error('Failed to load monitoring status:', error);
     }
@@ -41,6 +45,7 @@ export const useMonitoring = () => {
 
   return {
     monitoringStatus,
+    captureStatus,
     toggleMonitoring
   };
 };
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { DataAPI } from '../../common/types/DataAPI';
+
 declare global {
   interface Window {
     electronAPI: {
@@ -6,13 +8,27 @@ declare global {
       closeWindow: () => Promise<void>;
       quitApp: () => Promise<void>;
       getVersion: () => Promise<string>;
-      dbQuery: (query: string, params?: any[]) => Promise<any>;
+      getUsageSummary: DataAPI['getUsageSummary'];
+      listAlerts: DataAPI['listAlerts'];
+      resolveAlert: DataAPI['resolveAlert'];
+      getSessionHistory: DataAPI['getSessionHistory'];
+      listTerminalSessions: DataAPI['listTerminalSessions'];
+      listAnalyses: DataAPI['listAnalyses'];
+      getAnalysis: DataAPI['getAnalysis'];
+      setUserProfile: (profile: { email?: string; role?: string }) => Promise<boolean>;
+      testDashboardConnection: () => Promise<boolean>;
+      getSyncStatus: () => Promise<{ events: number; alerts: number; failed: number; lastSync: number; nextAttempt: number | null }>;
+      restoreRedacted: (text: string) => Promise<{ text: string; restored: number }>;
+      restoreClipboard: () => Promise<{ text: string; restored: number }>;
+      getRedactionVaultStatus: () => Promise<{ entries: number; createdAt: number | null; expiresAt: number | null; persisted: boolean }>;
+      clearRedactionVault: () => Promise<boolean>;
       startMonitoring: () => Promise<void>;
       stopMonitoring: () => Promise<void>;
       getMonitoringStatus: () => Promise<any>;
       onMonitoringUpdate: (callback: (data: any) => void) => void;
       onUsageAlert: (callback: (data: any) => void) => void;
       onCostOptimization: (callback: (data: any) => void) => void;
+      onPoliciesUpdated: (callback: (policies: any[]) => void) => void;
       removeAllListeners: (channel: string) => void;
     };
   }